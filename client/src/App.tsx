@@ -5,15 +5,44 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
 import LoginPage from "@/pages/LoginPage";
+import ChangePasswordPage from "@/pages/ChangePasswordPage";
+import ResetPasswordPage from "@/pages/ResetPassword";
+import TwoFactorSetupPage from "@/pages/TwoFactorSetupPage";
 import Layout from "@/components/Layout";
 import Dashboard from "@/components/Dashboard";
 import UsersPage from "@/components/UsersPage";
 import EntitiesPage from "@/components/EntitiesPage";
 import WorkGroupsPage from "@/components/WorkGroupsPage";
+import SecurityPage from "@/components/SecurityPage";
+import ApiKeysPage from "@/components/ApiKeysPage";
+import PermissionsPage from "@/components/PermissionsPage";
+import DelegationsPage from "@/components/DelegationsPage";
 import NotFound from "@/pages/not-found";
+import AccessDenied from "@/pages/access-denied";
+import Can from "@/components/Can";
+import type { PermissionAction, PermissionModule } from "@shared/schema";
+
+// Pages are only rendered for users holding the permission that the page's API requires
+function guard(Page: React.ComponentType, module: PermissionModule, action: PermissionAction) {
+  return function GuardedPage() {
+    return (
+      <Can module={module} action={action} fallback={<AccessDenied />}>
+        <Page />
+      </Can>
+    );
+  };
+}
+
+const GuardedDashboard = guard(Dashboard, "dashboard", "VIEW");
+const GuardedUsersPage = guard(UsersPage, "users", "VIEW");
+const GuardedEntitiesPage = guard(EntitiesPage, "entities", "VIEW");
+const GuardedWorkGroupsPage = guard(WorkGroupsPage, "work-groups", "VIEW");
+const GuardedApiKeysPage = guard(ApiKeysPage, "api-keys", "VIEW");
+const GuardedPermissionsPage = guard(PermissionsPage, "permissions", "VIEW");
+const GuardedDelegationsPage = guard(DelegationsPage, "delegations", "VIEW");
 
 function Router() {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading } = useAuth();
 
   if (isLoading) {
     return (
@@ -27,18 +56,33 @@ function Router() {
     return (
       <Switch>
         <Route path="/" component={LoginPage} />
+        <Route path="/reset-password/:token" component={ResetPasswordPage} />
         <Route component={LoginPage} />
       </Switch>
     );
   }
 
+  // Users with a temporary password must set a new one before using the system
+  if (user?.mustChangePassword) {
+    return <ChangePasswordPage />;
+  }
+
+  // Profiles that require two-factor must enroll before using the system
+  if (user?.twoFactorSetupRequired) {
+    return <TwoFactorSetupPage />;
+  }
+
   return (
     <Layout>
       <Switch>
-        <Route path="/" component={Dashboard} />
-        <Route path="/users" component={UsersPage} />
-        <Route path="/entities" component={EntitiesPage} />
-        <Route path="/work-groups" component={WorkGroupsPage} />
+        <Route path="/" component={GuardedDashboard} />
+        <Route path="/users" component={GuardedUsersPage} />
+        <Route path="/entities" component={GuardedEntitiesPage} />
+        <Route path="/work-groups" component={GuardedWorkGroupsPage} />
+        <Route path="/security" component={SecurityPage} />
+        <Route path="/api-keys" component={GuardedApiKeysPage} />
+        <Route path="/permissions" component={GuardedPermissionsPage} />
+        <Route path="/delegations" component={GuardedDelegationsPage} />
         <Route component={NotFound} />
       </Switch>
     </Layout>
@@ -0,0 +1,180 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Monitor, LogOut } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface Session {
+  id: string;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: string;
+  lastUsed: string;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
+interface ActiveSessionsPanelProps {
+  // Shows another user's sessions (requires user-sessions:VIEW); defaults to the current user
+  userId?: string;
+}
+
+function describeUserAgent(userAgent?: string): string {
+  if (!userAgent) return "Dispositivo desconhecido";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Navegador";
+
+  const os =
+    /Windows/.test(userAgent) ? "Windows" :
+    /Android/.test(userAgent) ? "Android" :
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    "";
+
+  return os ? `${browser} em ${os}` : browser;
+}
+
+export default function ActiveSessionsPanel({ userId }: ActiveSessionsPanelProps) {
+  const { toast } = useToast();
+  const { expireSession } = useAuth();
+  const { can } = usePermissions();
+  const sessionsUrl = userId ? `/api/users/${userId}/sessions` : "/api/auth/sessions";
+  // Users can always end their own sessions
+  const canRevoke = !userId || can("user-sessions", "DELETE");
+
+  const { data: sessions = [], isLoading } = useQuery<Session[]>({
+    queryKey: [sessionsUrl],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (session: Session) => {
+      await apiRequest("DELETE", `${sessionsUrl}/${session.id}`);
+    },
+    onSuccess: (_, session) => {
+      if (session.isCurrent) {
+        expireSession();
+        return;
+      }
+
+      queryClient.invalidateQueries({ queryKey: [sessionsUrl] });
+      toast({
+        title: "Sessão encerrada",
+        description: "A sessão foi encerrada com sucesso.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível encerrar a sessão.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRevoke = (session: Session) => {
+    const message = session.isCurrent
+      ? "Encerrar esta sessão irá desconectá-lo. Deseja continuar?"
+      : "Tem certeza que deseja encerrar esta sessão?";
+
+    if (confirm(message)) {
+      revokeMutation.mutate(session);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sessões ativas</CardTitle>
+        <p className="text-gray-600 mt-1">
+          Dispositivos conectados {userId ? "a esta conta" : "à sua conta"}
+        </p>
+      </CardHeader>
+
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-pulse space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-12 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Dispositivo</TableHead>
+                  <TableHead>Endereço IP</TableHead>
+                  <TableHead>Última atividade</TableHead>
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8 text-gray-500">
+                      Nenhuma sessão ativa
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  sessions.map((session) => (
+                    <TableRow key={session.id}>
+                      <TableCell>
+                        <div className="flex items-center space-x-3">
+                          <Monitor className="w-4 h-4 text-gray-500" />
+                          <div>
+                            <p className="font-medium text-gray-900" title={session.userAgent}>
+                              {describeUserAgent(session.userAgent)}
+                            </p>
+                            {session.isCurrent && (
+                              <Badge variant="secondary">Sessão atual</Badge>
+                            )}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-gray-700">{session.ipAddress || "-"}</TableCell>
+                      <TableCell className="text-gray-700">
+                        {new Date(session.lastUsed).toLocaleString("pt-BR")}
+                      </TableCell>
+                      <TableCell>
+                        {canRevoke && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRevoke(session)}
+                            disabled={revokeMutation.isPending}
+                            className="text-red-600 hover:text-red-700"
+                            title="Encerrar sessão"
+                          >
+                            <LogOut className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,226 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getFullName } from "@/lib/authUtils";
+import { Loader2 } from "lucide-react";
+
+export const API_KEY_SCOPE_LABELS: Record<string, string> = {
+  "dashboard:read": "Dashboard (leitura)",
+  "users:read": "Usuários (leitura)",
+  "users:write": "Usuários (escrita)",
+  "work-groups:read": "Grupos de trabalho (leitura)",
+  "work-groups:write": "Grupos de trabalho (escrita)",
+  "entities:read": "Entidades (leitura)",
+  "entities:write": "Entidades (escrita)",
+};
+
+const apiKeySchema = z.object({
+  name: z.string().min(1, "Nome é obrigatório"),
+  userId: z.string().min(1, "Responsável é obrigatório"),
+  scopes: z.array(z.string()).min(1, "Selecione ao menos um escopo"),
+  allowedIps: z.string().optional(),
+  expiresAt: z.string().optional(),
+});
+
+type ApiKeyFormData = z.infer<typeof apiKeySchema>;
+
+interface User {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  isActive: boolean;
+}
+
+interface ApiKeyModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (key: string) => void;
+}
+
+export default function ApiKeyModal({ open, onOpenChange, onCreated }: ApiKeyModalProps) {
+  const { toast } = useToast();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setValue,
+    watch,
+  } = useForm<ApiKeyFormData>({
+    resolver: zodResolver(apiKeySchema),
+    defaultValues: {
+      name: "",
+      userId: "",
+      scopes: [],
+      allowedIps: "",
+      expiresAt: "",
+    },
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users?isActive=true"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open) {
+      reset();
+    }
+  }, [open, reset]);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: ApiKeyFormData) => {
+      const allowedIps = (data.allowedIps || "")
+        .split(/[\s,]+/)
+        .map((ip) => ip.trim())
+        .filter(Boolean);
+
+      const response = await apiRequest("POST", "/api/api-keys", {
+        name: data.name,
+        userId: data.userId,
+        scopes: data.scopes,
+        allowedIps: allowedIps.length > 0 ? allowedIps : undefined,
+        expiresAt: data.expiresAt ? new Date(`${data.expiresAt}T23:59:59`).toISOString() : undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (apiKey) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+      onOpenChange(false);
+      onCreated(apiKey.key);
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível criar a chave de API. Verifique os dados informados.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectedScopes = watch("scopes");
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setValue(
+      "scopes",
+      checked ? [...selectedScopes, scope] : selectedScopes.filter((s) => s !== scope),
+      { shouldValidate: true }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Nova Chave de API</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="name">Nome *</Label>
+            <Input
+              id="name"
+              placeholder="Ex.: Integração ERP"
+              {...register("name")}
+              className={errors.name ? "border-destructive" : ""}
+            />
+            {errors.name && (
+              <p className="text-sm text-destructive">{errors.name.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Responsável *</Label>
+            <Select value={watch("userId")} onValueChange={(value) => setValue("userId", value, { shouldValidate: true })}>
+              <SelectTrigger className={errors.userId ? "border-destructive" : ""}>
+                <SelectValue placeholder="Selecione o usuário" />
+              </SelectTrigger>
+              <SelectContent>
+                {users.map((user) => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {getFullName(user.firstName, user.lastName)} ({user.email})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              A chave age em nome deste usuário e nunca excede as permissões do perfil dele.
+            </p>
+            {errors.userId && (
+              <p className="text-sm text-destructive">{errors.userId.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Escopos *</Label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {Object.entries(API_KEY_SCOPE_LABELS).map(([scope, label]) => (
+                <div key={scope} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`scope-${scope}`}
+                    checked={selectedScopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked as boolean)}
+                  />
+                  <Label htmlFor={`scope-${scope}`} className="text-sm font-normal">
+                    {label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            {errors.scopes && (
+              <p className="text-sm text-destructive">{errors.scopes.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="allowedIps">IPs permitidos</Label>
+            <Textarea
+              id="allowedIps"
+              placeholder="Um endereço por linha. Deixe em branco para permitir qualquer IP."
+              {...register("allowedIps")}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="expiresAt">Expira em</Label>
+            <Input id="expiresAt" type="date" {...register("expiresAt")} />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={createMutation.isPending}>
+              {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Criar chave
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getFullName } from "@/lib/authUtils";
+import ApiKeyModal, { API_KEY_SCOPE_LABELS } from "./ApiKeyModal";
+import Can from "./Can";
+import { Plus, MoreHorizontal, RefreshCw, Ban, Copy } from "lucide-react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  allowedIps?: string[] | null;
+  expiresAt?: string | null;
+  lastUsedAt?: string | null;
+  lastUsedIp?: string | null;
+  revokedAt?: string | null;
+  createdAt: string;
+  owner: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+  };
+}
+
+function getApiKeyStatus(apiKey: ApiKey): { label: string; variant: "default" | "secondary" | "destructive" } {
+  if (apiKey.revokedAt) return { label: "Revogada", variant: "destructive" };
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt) < new Date()) return { label: "Expirada", variant: "secondary" };
+  return { label: "Ativa", variant: "default" };
+}
+
+export default function ApiKeysPage() {
+  const { toast } = useToast();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const { data: apiKeys = [], isLoading } = useQuery<ApiKey[]>({
+    queryKey: ["/api/api-keys"],
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (apiKeyId: string) => {
+      const response = await apiRequest("POST", `/api/api-keys/${apiKeyId}/rotate`);
+      return response.json();
+    },
+    onSuccess: (apiKey) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+      setCreatedKey(apiKey.key);
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível gerar uma nova chave.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (apiKeyId: string) => {
+      await apiRequest("DELETE", `/api/api-keys/${apiKeyId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+      toast({
+        title: "Chave revogada",
+        description: "A chave de API foi revogada com sucesso.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível revogar a chave de API.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRotate = (apiKey: ApiKey) => {
+    if (confirm(`Gerar uma nova chave para "${apiKey.name}"? A chave atual deixará de funcionar imediatamente.`)) {
+      rotateMutation.mutate(apiKey.id);
+    }
+  };
+
+  const handleRevoke = (apiKey: ApiKey) => {
+    if (confirm(`Tem certeza que deseja revogar a chave "${apiKey.name}"?`)) {
+      revokeMutation.mutate(apiKey.id);
+    }
+  };
+
+  const handleCopyKey = async () => {
+    await navigator.clipboard.writeText(createdKey!);
+    toast({
+      title: "Copiado",
+      description: "Chave copiada para a área de transferência.",
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="animate-pulse space-y-4">
+            <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+            <div className="space-y-3">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="h-12 bg-gray-200 rounded"></div>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Chaves de API</CardTitle>
+              <p className="text-gray-600 mt-1">
+                Acesso para sistemas externos via cabeçalho <code>X-API-Key</code>
+              </p>
+            </div>
+            <Can module="api-keys" action="CREATE">
+              <Button onClick={() => setIsModalOpen(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Nova Chave
+              </Button>
+            </Can>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Responsável</TableHead>
+                  <TableHead>Escopos</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Último uso</TableHead>
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {apiKeys.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                      Nenhuma chave de API cadastrada
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  apiKeys.map((apiKey) => {
+                    const status = getApiKeyStatus(apiKey);
+                    return (
+                      <TableRow key={apiKey.id}>
+                        <TableCell>
+                          <p className="font-medium text-gray-900">{apiKey.name}</p>
+                          <p className="text-xs text-gray-500 font-mono">{apiKey.keyPrefix}…</p>
+                        </TableCell>
+                        <TableCell className="text-gray-700">
+                          {getFullName(apiKey.owner.firstName, apiKey.owner.lastName)}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {apiKey.scopes.map((scope) => (
+                              <Badge key={scope} variant="outline" title={API_KEY_SCOPE_LABELS[scope]}>
+                                {scope}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={status.variant}>{status.label}</Badge>
+                          {apiKey.expiresAt && !apiKey.revokedAt && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              até {new Date(apiKey.expiresAt).toLocaleDateString("pt-BR")}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-gray-700">
+                          {apiKey.lastUsedAt ? (
+                            <>
+                              {new Date(apiKey.lastUsedAt).toLocaleString("pt-BR")}
+                              {apiKey.lastUsedIp && (
+                                <p className="text-xs text-gray-500">{apiKey.lastUsedIp}</p>
+                              )}
+                            </>
+                          ) : (
+                            "Nunca"
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {!apiKey.revokedAt && (
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="sm">
+                                  <MoreHorizontal className="w-4 h-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <Can module="api-keys" action="EDIT">
+                                  <DropdownMenuItem onClick={() => handleRotate(apiKey)}>
+                                    <RefreshCw className="w-4 h-4 mr-2" />
+                                    Gerar nova chave
+                                  </DropdownMenuItem>
+                                </Can>
+                                <Can module="api-keys" action="DELETE">
+                                  <DropdownMenuItem
+                                    onClick={() => handleRevoke(apiKey)}
+                                    className="text-red-600"
+                                  >
+                                    <Ban className="w-4 h-4 mr-2" />
+                                    Revogar
+                                  </DropdownMenuItem>
+                                </Can>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <ApiKeyModal
+        open={isModalOpen}
+        onOpenChange={setIsModalOpen}
+        onCreated={setCreatedKey}
+      />
+
+      <Dialog open={!!createdKey} onOpenChange={(open) => !open && setCreatedKey(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Chave de API gerada</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">
+            Copie a chave agora. Por segurança, ela não será exibida novamente.
+          </p>
+          <Input readOnly value={createdKey || ""} className="font-mono text-sm" onFocus={(e) => e.target.select()} />
+          <DialogFooter>
+            <Button variant="outline" onClick={handleCopyKey}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copiar
+            </Button>
+            <Button onClick={() => setCreatedKey(null)}>Concluir</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import type { PermissionAction, PermissionModule } from "@shared/schema";
+import { usePermissions } from "@/hooks/usePermissions";
+
+interface CanProps {
+  module: PermissionModule;
+  action: PermissionAction;
+  children: React.ReactNode;
+  // Rendered instead of the children when the permission is missing
+  fallback?: React.ReactNode;
+}
+
+export default function Can({ module, action, children, fallback = null }: CanProps) {
+  const { can } = usePermissions();
+
+  return <>{can(module, action) ? children : fallback}</>;
+}
@@ -0,0 +1,316 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getFullName } from "@/lib/authUtils";
+import { getPermissionLabel } from "@/lib/permissionLabels";
+import { Loader2 } from "lucide-react";
+
+const delegationSchema = z.object({
+  fromUserId: z.string().min(1, "Selecione quem delega"),
+  toUserId: z.string().min(1, "Selecione quem recebe a delegação"),
+  workGroupIds: z.array(z.string()).default([]),
+  permissions: z.array(z.string()).default([]),
+  startsAt: z.string().min(1, "Início é obrigatório"),
+  endsAt: z.string().min(1, "Término é obrigatório"),
+  reason: z.string().min(1, "Motivo é obrigatório"),
+}).refine((data) => data.fromUserId !== data.toUserId, {
+  message: "Selecione outro usuário",
+  path: ["toUserId"],
+}).refine((data) => data.workGroupIds.length > 0 || data.permissions.length > 0, {
+  message: "Selecione ao menos um grupo ou permissão",
+  path: ["permissions"],
+}).refine((data) => new Date(data.endsAt) > new Date(data.startsAt), {
+  message: "O término deve ser posterior ao início",
+  path: ["endsAt"],
+});
+
+type DelegationFormData = z.infer<typeof delegationSchema>;
+
+interface User {
+  id: string;
+  firstName: string;
+  lastName: string;
+  isActive: boolean;
+  userWorkGroups: Array<{
+    workGroup: {
+      id: string;
+      name: string;
+    };
+  }>;
+}
+
+interface DelegationModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Formats a date for datetime-local inputs, which expect local time without a timezone
+function toDateTimeLocal(date: Date): string {
+  const offsetDate = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return offsetDate.toISOString().slice(0, 16);
+}
+
+export default function DelegationModal({ open, onOpenChange }: DelegationModalProps) {
+  const { toast } = useToast();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setValue,
+    watch,
+  } = useForm<DelegationFormData>({
+    resolver: zodResolver(delegationSchema),
+  });
+
+  useEffect(() => {
+    if (open) {
+      reset({
+        fromUserId: "",
+        toUserId: "",
+        workGroupIds: [],
+        permissions: [],
+        startsAt: toDateTimeLocal(new Date()),
+        endsAt: "",
+        reason: "",
+      });
+    }
+  }, [open, reset]);
+
+  const fromUserId = watch("fromUserId");
+  const selectedWorkGroupIds = watch("workGroupIds") || [];
+  const selectedPermissions = watch("permissions") || [];
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+    enabled: open,
+  });
+
+  // Only what the delegating user holds can be lent
+  const { data: lendablePermissions = [], isLoading: isPermissionsLoading } = useQuery<string[]>({
+    queryKey: [`/api/users/${fromUserId}/permissions`],
+    enabled: open && !!fromUserId,
+  });
+
+  const activeUsers = users.filter((user) => user.isActive);
+  const fromUser = users.find((user) => user.id === fromUserId);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: DelegationFormData) => {
+      const response = await apiRequest("POST", "/api/delegations", {
+        ...data,
+        startsAt: new Date(data.startsAt).toISOString(),
+        endsAt: new Date(data.endsAt).toISOString(),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/delegations"] });
+      toast({
+        title: "Delegação criada",
+        description: "O acesso será concedido durante o período informado.",
+      });
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível criar a delegação.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFromUserChange = (value: string) => {
+    setValue("fromUserId", value);
+    setValue("workGroupIds", []);
+    setValue("permissions", []);
+  };
+
+  const toggleValue = (field: "workGroupIds" | "permissions", values: string[], value: string) => {
+    setValue(
+      field,
+      values.includes(value) ? values.filter((item) => item !== value) : [...values, value]
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Nova Delegação</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit((data) => createMutation.mutate(data))} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="fromUserId">Quem delega *</Label>
+              <Select value={fromUserId} onValueChange={handleFromUserChange}>
+                <SelectTrigger id="fromUserId" className={errors.fromUserId ? "border-destructive" : ""}>
+                  <SelectValue placeholder="Selecione o usuário" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeUsers.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {getFullName(user.firstName, user.lastName)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.fromUserId && (
+                <p className="text-sm text-destructive">{errors.fromUserId.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="toUserId">Quem recebe *</Label>
+              <Select value={watch("toUserId")} onValueChange={(value) => setValue("toUserId", value)}>
+                <SelectTrigger id="toUserId" className={errors.toUserId ? "border-destructive" : ""}>
+                  <SelectValue placeholder="Selecione o usuário" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeUsers
+                    .filter((user) => user.id !== fromUserId)
+                    .map((user) => (
+                      <SelectItem key={user.id} value={user.id}>
+                        {getFullName(user.firstName, user.lastName)}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              {errors.toUserId && (
+                <p className="text-sm text-destructive">{errors.toUserId.message}</p>
+              )}
+            </div>
+          </div>
+
+          {fromUser && (
+            <>
+              <div className="space-y-2">
+                <Label>Grupos de trabalho</Label>
+                {fromUser.userWorkGroups.length === 0 ? (
+                  <p className="text-sm text-gray-500">O usuário não pertence a nenhum grupo.</p>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 rounded-md border p-3">
+                    {fromUser.userWorkGroups.map(({ workGroup }) => (
+                      <label key={workGroup.id} className="flex items-center space-x-2 text-sm cursor-pointer">
+                        <Checkbox
+                          checked={selectedWorkGroupIds.includes(workGroup.id)}
+                          onCheckedChange={() => toggleValue("workGroupIds", selectedWorkGroupIds, workGroup.id)}
+                        />
+                        <span>{workGroup.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Permissões</Label>
+                {isPermissionsLoading ? (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 rounded-md border p-3 max-h-56 overflow-y-auto">
+                    {lendablePermissions.map((permission) => (
+                      <label key={permission} className="flex items-center space-x-2 text-sm cursor-pointer">
+                        <Checkbox
+                          checked={selectedPermissions.includes(permission)}
+                          onCheckedChange={() => toggleValue("permissions", selectedPermissions, permission)}
+                        />
+                        <span>{getPermissionLabel(permission)}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+                {errors.permissions && (
+                  <p className="text-sm text-destructive">{errors.permissions.message}</p>
+                )}
+              </div>
+            </>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="startsAt">Início *</Label>
+              <Input
+                id="startsAt"
+                type="datetime-local"
+                {...register("startsAt")}
+                className={errors.startsAt ? "border-destructive" : ""}
+              />
+              {errors.startsAt && (
+                <p className="text-sm text-destructive">{errors.startsAt.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="endsAt">Término *</Label>
+              <Input
+                id="endsAt"
+                type="datetime-local"
+                {...register("endsAt")}
+                className={errors.endsAt ? "border-destructive" : ""}
+              />
+              {errors.endsAt && (
+                <p className="text-sm text-destructive">{errors.endsAt.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reason">Motivo *</Label>
+            <Textarea
+              id="reason"
+              placeholder="Ex.: férias do titular"
+              rows={3}
+              {...register("reason")}
+              className={errors.reason ? "border-destructive" : ""}
+            />
+            {errors.reason && (
+              <p className="text-sm text-destructive">{errors.reason.message}</p>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            A delegação termina automaticamente na data de término e pode ser revogada antes disso.
+          </p>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={createMutation.isPending}>
+              {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Criar delegação
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
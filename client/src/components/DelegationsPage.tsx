@@ -0,0 +1,326 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getFullName } from "@/lib/authUtils";
+import { getPermissionLabel } from "@/lib/permissionLabels";
+import DelegationModal from "./DelegationModal";
+import Can from "./Can";
+import { Plus, MoreHorizontal, History, Ban } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+type DelegationStatus = "SCHEDULED" | "ACTIVE" | "EXPIRED" | "REVOKED";
+
+interface UserSummary {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface Delegation {
+  id: string;
+  workGroupIds: string[];
+  permissions: string[];
+  startsAt: string;
+  endsAt: string;
+  reason: string;
+  revokedAt?: string | null;
+  createdAt: string;
+  status: DelegationStatus;
+  fromUser: UserSummary;
+  toUser: UserSummary;
+}
+
+interface WorkGroup {
+  id: string;
+  name: string;
+}
+
+interface DelegationHistoryEntry {
+  id: string;
+  action: string;
+  user: UserSummary | null;
+  createdAt: string;
+}
+
+const STATUS_LABELS: Record<DelegationStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  SCHEDULED: { label: "Agendada", variant: "outline" },
+  ACTIVE: { label: "Ativa", variant: "default" },
+  EXPIRED: { label: "Expirada", variant: "secondary" },
+  REVOKED: { label: "Revogada", variant: "destructive" },
+};
+
+const HISTORY_ACTION_LABELS: Record<string, string> = {
+  DELEGATION_CREATE: "Criada",
+  DELEGATION_REVOKE: "Revogada",
+};
+
+export default function DelegationsPage() {
+  const { toast } = useToast();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [historyDelegation, setHistoryDelegation] = useState<Delegation | null>(null);
+
+  const { data: delegations = [], isLoading } = useQuery<Delegation[]>({
+    queryKey: ["/api/delegations"],
+  });
+
+  const { data: workGroups = [] } = useQuery<WorkGroup[]>({
+    queryKey: ["/api/work-groups"],
+  });
+
+  const { data: history = [], isLoading: isHistoryLoading } = useQuery<DelegationHistoryEntry[]>({
+    queryKey: [`/api/delegations/${historyDelegation?.id}/history`],
+    enabled: !!historyDelegation,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (delegationId: string) => {
+      await apiRequest("DELETE", `/api/delegations/${delegationId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/delegations"] });
+      toast({
+        title: "Delegação revogada",
+        description: "O acesso delegado foi encerrado.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível revogar a delegação.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRevoke = (delegation: Delegation) => {
+    const toUserName = getFullName(delegation.toUser.firstName, delegation.toUser.lastName);
+    if (confirm(`Revogar a delegação para ${toUserName}? O acesso será encerrado imediatamente.`)) {
+      revokeMutation.mutate(delegation.id);
+    }
+  };
+
+  const getWorkGroupName = (workGroupId: string) =>
+    workGroups.find((workGroup) => workGroup.id === workGroupId)?.name ?? "Grupo removido";
+
+  const formatDateTime = (value: string) => new Date(value).toLocaleString("pt-BR");
+
+  const currentDelegations = delegations.filter(
+    (delegation) => delegation.status === "ACTIVE" || delegation.status === "SCHEDULED"
+  );
+  const pastDelegations = delegations.filter(
+    (delegation) => delegation.status === "EXPIRED" || delegation.status === "REVOKED"
+  );
+
+  // Expiration is not an audited action, so it is shown from the delegation's own end date
+  const historyEntries: DelegationHistoryEntry[] = history.map((entry) => ({
+    ...entry,
+    action: HISTORY_ACTION_LABELS[entry.action] ?? entry.action,
+  }));
+  if (historyDelegation?.status === "EXPIRED") {
+    historyEntries.unshift({
+      id: "expired",
+      action: "Encerrada automaticamente",
+      user: null,
+      createdAt: historyDelegation.endsAt,
+    });
+  }
+
+  const renderTable = (rows: Delegation[], emptyMessage: string) => (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>De</TableHead>
+            <TableHead>Para</TableHead>
+            <TableHead>Acesso</TableHead>
+            <TableHead>Período</TableHead>
+            <TableHead>Motivo</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="w-12"></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                {emptyMessage}
+              </TableCell>
+            </TableRow>
+          ) : (
+            rows.map((delegation) => {
+              const status = STATUS_LABELS[delegation.status];
+              return (
+                <TableRow key={delegation.id}>
+                  <TableCell className="text-gray-700">
+                    {getFullName(delegation.fromUser.firstName, delegation.fromUser.lastName)}
+                  </TableCell>
+                  <TableCell className="text-gray-700">
+                    {getFullName(delegation.toUser.firstName, delegation.toUser.lastName)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {delegation.workGroupIds.map((workGroupId) => (
+                        <Badge key={workGroupId} variant="secondary">
+                          {getWorkGroupName(workGroupId)}
+                        </Badge>
+                      ))}
+                      {delegation.permissions.map((permission) => (
+                        <Badge key={permission} variant="outline">
+                          {getPermissionLabel(permission)}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-gray-700 text-sm">
+                    <p>{formatDateTime(delegation.startsAt)}</p>
+                    <p className="text-gray-500">até {formatDateTime(delegation.endsAt)}</p>
+                  </TableCell>
+                  <TableCell className="text-gray-700 max-w-xs truncate" title={delegation.reason}>
+                    {delegation.reason}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={status.variant}>{status.label}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm">
+                          <MoreHorizontal className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => setHistoryDelegation(delegation)}>
+                          <History className="w-4 h-4 mr-2" />
+                          Histórico
+                        </DropdownMenuItem>
+                        {(delegation.status === "ACTIVE" || delegation.status === "SCHEDULED") && (
+                          <Can module="delegations" action="DELETE">
+                            <DropdownMenuItem
+                              onClick={() => handleRevoke(delegation)}
+                              className="text-red-600"
+                            >
+                              <Ban className="w-4 h-4 mr-2" />
+                              Revogar
+                            </DropdownMenuItem>
+                          </Can>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              );
+            })
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="animate-pulse space-y-4">
+            <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+            <div className="space-y-3">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="h-12 bg-gray-200 rounded"></div>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Delegações</CardTitle>
+              <p className="text-gray-600 mt-1">
+                Grupos de trabalho e permissões emprestados por um período
+              </p>
+            </div>
+            <Can module="delegations" action="CREATE">
+              <Button onClick={() => setIsModalOpen(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Nova Delegação
+              </Button>
+            </Can>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          <Tabs defaultValue="current">
+            <TabsList>
+              <TabsTrigger value="current">Ativas ({currentDelegations.length})</TabsTrigger>
+              <TabsTrigger value="past">Histórico ({pastDelegations.length})</TabsTrigger>
+            </TabsList>
+            <TabsContent value="current" className="pt-4">
+              {renderTable(currentDelegations, "Nenhuma delegação ativa ou agendada")}
+            </TabsContent>
+            <TabsContent value="past" className="pt-4">
+              {renderTable(pastDelegations, "Nenhuma delegação encerrada")}
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+
+      <DelegationModal open={isModalOpen} onOpenChange={setIsModalOpen} />
+
+      <Dialog open={!!historyDelegation} onOpenChange={(open) => !open && setHistoryDelegation(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Histórico da delegação</DialogTitle>
+          </DialogHeader>
+          {isHistoryLoading ? (
+            <div className="animate-pulse space-y-3">
+              {[...Array(2)].map((_, i) => (
+                <div key={i} className="h-10 bg-gray-200 rounded"></div>
+              ))}
+            </div>
+          ) : historyEntries.length === 0 ? (
+            <p className="text-sm text-gray-500">Nenhum registro encontrado.</p>
+          ) : (
+            <div className="rounded-md border divide-y">
+              {historyEntries.map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between p-3">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{entry.action}</p>
+                    <p className="text-xs text-gray-500">
+                      {entry.user ? getFullName(entry.user.firstName, entry.user.lastName) : "Sistema"}
+                    </p>
+                  </div>
+                  <span className="text-xs text-gray-500">{formatDateTime(entry.createdAt)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
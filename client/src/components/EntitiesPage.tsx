@@ -6,10 +6,12 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { formatDocument } from "@/lib/validators";
 import EntityModal from "./EntityModal";
-import { Plus, Search, Edit, Trash2, MoreHorizontal, Eye } from "lucide-react";
+import Can from "./Can";
+import { Plus, Search, Edit, Trash2, MoreHorizontal, Eye, Loader2 } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -56,6 +58,10 @@ export default function EntitiesPage() {
   const [statusFilter, setStatusFilter] = useState("all");
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingEntity, setEditingEntity] = useState<Entity | null>(null);
+  const [revealedEntities, setRevealedEntities] = useState<Record<string, Entity>>({});
+  const { can } = usePermissions();
+  const canViewSensitive = can("sensitive-data", "VIEW");
+  const canRevealSensitive = can("sensitive-data", "REVEAL");
 
   const { data: entities = [], isLoading } = useQuery<Entity[]>({
     queryKey: ["/api/entities", { 
@@ -85,9 +91,47 @@ export default function EntitiesPage() {
     },
   });
 
-  const handleEditEntity = (entity: Entity) => {
-    setEditingEntity(entity);
-    setIsModalOpen(true);
+  // Every reveal is audited by the server
+  const revealMutation = useMutation({
+    mutationFn: async (entityId: string): Promise<Entity> => {
+      const response = await apiRequest("POST", `/api/entities/${entityId}/reveal`);
+      return response.json();
+    },
+    onSuccess: (entity) => {
+      setRevealedEntities((previous) => ({ ...previous, [entity.id]: entity }));
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível exibir os dados da entidade.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isMasked = (entity: Entity) => !canViewSensitive && !revealedEntities[entity.id];
+
+  // The form cannot hold masked values, so only users who can reveal them open a masked entity
+  const canOpenEntity = (entity: Entity) => !isMasked(entity) || canRevealSensitive;
+
+  // The form needs the real values, so masked entities are revealed before opening it
+  const handleEditEntity = async (entity: Entity) => {
+    const entityToEdit = isMasked(entity)
+      ? await revealMutation.mutateAsync(entity.id).catch(() => null)
+      : revealedEntities[entity.id] ?? entity;
+
+    if (entityToEdit) {
+      setEditingEntity(entityToEdit);
+      setIsModalOpen(true);
+    }
+  };
+
+  // Saved changes refresh the list, so the revealed copy would be stale
+  const handleModalOpenChange = (open: boolean) => {
+    setIsModalOpen(open);
+    if (!open && editingEntity) {
+      setRevealedEntities(({ [editingEntity.id]: _, ...rest }) => rest);
+    }
   };
 
   const handleDeleteEntity = async (entity: Entity) => {
@@ -141,10 +185,12 @@ export default function EntitiesPage() {
               <CardTitle>Gerenciamento de Entidades</CardTitle>
               <p className="text-gray-600 mt-1">Gerencie pessoas físicas e jurídicas</p>
             </div>
-            <Button onClick={handleAddEntity}>
-              <Plus className="w-4 h-4 mr-2" />
-              Nova Entidade
-            </Button>
+            <Can module="entities" action="CREATE">
+              <Button onClick={handleAddEntity}>
+                <Plus className="w-4 h-4 mr-2" />
+                Nova Entidade
+              </Button>
+            </Can>
           </div>
         </CardHeader>
         
@@ -204,7 +250,8 @@ export default function EntitiesPage() {
                     </TableCell>
                   </TableRow>
                 ) : (
-                  entities.map((entity) => {
+                  entities.map((listedEntity) => {
+                    const entity = revealedEntities[listedEntity.id] ?? listedEntity;
                     const primaryContact = getPrimaryContact(entity);
                     return (
                       <TableRow key={entity.id}>
@@ -222,7 +269,28 @@ export default function EntitiesPage() {
                           </div>
                         </TableCell>
                         <TableCell className="text-gray-700">
-                          {formatDocument(entity.document, entity.type)}
+                          {isMasked(entity) ? (
+                            <div className="flex items-center space-x-1">
+                              <span>{entity.document}</span>
+                              {canRevealSensitive && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => revealMutation.mutate(entity.id)}
+                                  disabled={revealMutation.isPending}
+                                  title="Exibir dados sensíveis"
+                                >
+                                  {revealMutation.isPending && revealMutation.variables === entity.id ? (
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                  ) : (
+                                    <Eye className="w-4 h-4" />
+                                  )}
+                                </Button>
+                              )}
+                            </div>
+                          ) : (
+                            formatDocument(entity.document, entity.type)
+                          )}
                         </TableCell>
                         <TableCell>
                           <Badge className={getTypeColor(entity.type)}>
@@ -253,21 +321,29 @@ export default function EntitiesPage() {
                               </Button>
                             </DropdownMenuTrigger>
                             <DropdownMenuContent align="end">
-                              <DropdownMenuItem onClick={() => handleEditEntity(entity)}>
-                                <Eye className="w-4 h-4 mr-2" />
-                                Visualizar
-                              </DropdownMenuItem>
-                              <DropdownMenuItem onClick={() => handleEditEntity(entity)}>
-                                <Edit className="w-4 h-4 mr-2" />
-                                Editar
-                              </DropdownMenuItem>
-                              <DropdownMenuItem 
-                                onClick={() => handleDeleteEntity(entity)}
-                                className="text-red-600"
-                              >
-                                <Trash2 className="w-4 h-4 mr-2" />
-                                Remover
-                              </DropdownMenuItem>
+                              {canOpenEntity(entity) && (
+                                <>
+                                  <DropdownMenuItem onClick={() => handleEditEntity(entity)}>
+                                    <Eye className="w-4 h-4 mr-2" />
+                                    Visualizar
+                                  </DropdownMenuItem>
+                                  <Can module="entities" action="EDIT">
+                                    <DropdownMenuItem onClick={() => handleEditEntity(entity)}>
+                                      <Edit className="w-4 h-4 mr-2" />
+                                      Editar
+                                    </DropdownMenuItem>
+                                  </Can>
+                                </>
+                              )}
+                              <Can module="entities" action="DELETE">
+                                <DropdownMenuItem 
+                                  onClick={() => handleDeleteEntity(entity)}
+                                  className="text-red-600"
+                                >
+                                  <Trash2 className="w-4 h-4 mr-2" />
+                                  Remover
+                                </DropdownMenuItem>
+                              </Can>
                             </DropdownMenuContent>
                           </DropdownMenu>
                         </TableCell>
@@ -293,7 +369,7 @@ export default function EntitiesPage() {
       {/* Entity Modal */}
       <EntityModal
         open={isModalOpen}
-        onOpenChange={setIsModalOpen}
+        onOpenChange={handleModalOpenChange}
         entity={editingEntity}
       />
     </div>
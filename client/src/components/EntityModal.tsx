@@ -36,6 +36,7 @@ const entitySchema = z.object({
   stateRegistration: z.string().optional(),
   isActive: z.boolean().default(true),
   addresses: z.array(z.object({
+    id: z.string().optional(),
     street: z.string().min(1, "Logradouro é obrigatório"),
     number: z.string().optional(),
     complement: z.string().optional(),
@@ -48,6 +49,7 @@ const entitySchema = z.object({
     isPrimary: z.boolean().default(false),
   })).optional(),
   contacts: z.array(z.object({
+    id: z.string().optional(),
     name: z.string().optional(),
     role: z.string().optional(),
     phone: z.string().optional(),
@@ -107,6 +109,11 @@ interface Entity {
   }>;
 }
 
+// Empty columns come back as null, which the optional form fields do not accept
+function withoutNulls<T extends object>(record: T): T {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== null)) as T;
+}
+
 interface EntityModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -234,8 +241,8 @@ export default function EntityModal({ open, onOpenChange, entity }: EntityModalP
         municipalRegistration: entity.municipalRegistration || "",
         stateRegistration: entity.stateRegistration || "",
         isActive: entity.isActive,
-        addresses: entity.addresses.length > 0 ? entity.addresses : [{}],
-        contacts: entity.contacts.length > 0 ? entity.contacts : [{}],
+        addresses: entity.addresses.length > 0 ? entity.addresses.map(withoutNulls) : [{}],
+        contacts: entity.contacts.length > 0 ? entity.contacts.map(withoutNulls) : [{}],
       });
     } else if (!entity && open) {
       reset({
@@ -1,9 +1,11 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 import { getInitials, getFullName, getProfileLabel } from "@/lib/authUtils";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import SessionTimeoutWarning from "./SessionTimeoutWarning";
 import {
   Users,
   Building2,
@@ -13,6 +15,11 @@ import {
   Menu,
   X,
   Shield,
+  Lock,
+  KeyRound,
+  Eye,
+  ShieldCheck,
+  CalendarClock,
 } from "lucide-react";
 
 interface LayoutProps {
@@ -21,7 +28,8 @@ interface LayoutProps {
 
 export default function Layout({ children }: LayoutProps) {
   const [location] = useLocation();
-  const { user, logout, isLogoutLoading } = useAuth();
+  const { user, logout, isLogoutLoading, stopImpersonation, isStopImpersonationLoading } = useAuth();
+  const { can } = usePermissions();
   const { toast } = useToast();
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
@@ -41,38 +49,83 @@ export default function Layout({ children }: LayoutProps) {
     }
   };
 
+  const handleStopImpersonation = async () => {
+    try {
+      await stopImpersonation();
+      toast({
+        title: "Acesso encerrado",
+        description: "Você voltou a acessar com a sua conta.",
+      });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível encerrar o acesso como outro usuário.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const navigation = [
     {
       name: "Dashboard",
       href: "/",
       icon: LayoutDashboard,
       current: location === "/",
+      visible: can("dashboard", "VIEW"),
     },
     {
       name: "Usuários",
       href: "/users",
       icon: Users,
       current: location === "/users",
+      visible: can("users", "VIEW"),
     },
     {
       name: "Entidades",
       href: "/entities",
       icon: Building2,
       current: location === "/entities",
+      visible: can("entities", "VIEW"),
     },
     {
       name: "Grupos de Trabalho",
       href: "/work-groups",
       icon: UsersRound,
       current: location === "/work-groups",
+      visible: can("work-groups", "VIEW"),
     },
-  ];
+    {
+      name: "Chaves de API",
+      href: "/api-keys",
+      icon: KeyRound,
+      current: location === "/api-keys",
+      visible: can("api-keys", "VIEW"),
+    },
+    {
+      name: "Permissões",
+      href: "/permissions",
+      icon: ShieldCheck,
+      current: location === "/permissions",
+      visible: can("permissions", "VIEW"),
+    },
+    {
+      name: "Delegações",
+      href: "/delegations",
+      icon: CalendarClock,
+      current: location === "/delegations",
+      visible: can("delegations", "VIEW"),
+    },
+  ].filter((item) => item.visible);
 
   const pageTitle = {
     "/": { title: "Dashboard", subtitle: "Visão geral do sistema" },
     "/users": { title: "Usuários", subtitle: "Gerencie usuários e permissões" },
     "/entities": { title: "Entidades", subtitle: "Gerencie pessoas físicas e jurídicas" },
     "/work-groups": { title: "Grupos de Trabalho", subtitle: "Organize usuários em grupos" },
+    "/api-keys": { title: "Chaves de API", subtitle: "Gerencie o acesso de sistemas externos" },
+    "/permissions": { title: "Permissões", subtitle: "Defina o que cada perfil pode fazer no sistema" },
+    "/delegations": { title: "Delegações", subtitle: "Acesso temporário entre usuários" },
+    "/security": { title: "Segurança", subtitle: "Gerencie a verificação em duas etapas e os dispositivos conectados" },
   }[location] || { title: "MeC ONE", subtitle: "Sistema de Gestão Jurídica" };
 
   return (
@@ -152,6 +205,20 @@ export default function Layout({ children }: LayoutProps) {
                 </p>
               </div>
             </div>
+            {/* Security settings belong to the account owner */}
+            {!user?.impersonator && (
+              <Link href="/security">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full justify-start"
+                  onClick={() => setSidebarOpen(false)}
+                >
+                  <Lock className="w-4 h-4 mr-2" />
+                  Segurança
+                </Button>
+              </Link>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -168,6 +235,32 @@ export default function Layout({ children }: LayoutProps) {
 
       {/* Main content */}
       <div className="lg:ml-64">
+        {/* Impersonation banner */}
+        {user?.impersonator && (
+          <div className="sticky top-0 z-30 bg-amber-100 border-b border-amber-300 px-6 py-2">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center space-x-2 text-sm text-amber-900">
+                <Eye className="w-4 h-4 flex-shrink-0" />
+                <span>
+                  Você está acessando como{" "}
+                  <span className="font-semibold">{getFullName(user.firstName, user.lastName)}</span>{" "}
+                  ({user.email})
+                </span>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-amber-400 bg-white hover:bg-amber-50"
+                onClick={handleStopImpersonation}
+                disabled={isStopImpersonationLoading}
+              >
+                <LogOut className="w-4 h-4 mr-2" />
+                {isStopImpersonationLoading ? "Saindo..." : "Voltar à minha conta"}
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Header */}
         <header className="bg-white border-b border-gray-200 px-6 py-4">
           <div className="flex items-center justify-between">
@@ -191,6 +284,8 @@ export default function Layout({ children }: LayoutProps) {
         {/* Page content */}
         <main className="p-6">{children}</main>
       </div>
+
+      <SessionTimeoutWarning />
     </div>
   );
 }
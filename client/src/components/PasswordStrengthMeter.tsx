@@ -0,0 +1,55 @@
+import { useQuery } from "@tanstack/react-query";
+import { Check, X } from "lucide-react";
+import {
+  getPasswordRequirements,
+  getPasswordStrength,
+  STRENGTH_LABELS,
+  type PasswordPolicy,
+} from "@/lib/passwordPolicy";
+
+interface PasswordStrengthMeterProps {
+  password: string;
+}
+
+const STRENGTH_COLORS = ["bg-red-500", "bg-red-500", "bg-yellow-500", "bg-green-500", "bg-green-600"];
+
+export default function PasswordStrengthMeter({ password }: PasswordStrengthMeterProps) {
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/auth/password-policy"],
+  });
+
+  const strength = getPasswordStrength(password);
+  const requirements = policy ? getPasswordRequirements(password, policy) : [];
+
+  return (
+    <div className="space-y-2">
+      {password && (
+        <div className="space-y-1">
+          <div className="flex space-x-1">
+            {[0, 1, 2, 3].map((i) => (
+              <div
+                key={i}
+                className={`h-1.5 flex-1 rounded ${i < strength ? STRENGTH_COLORS[strength] : "bg-gray-200"}`}
+              />
+            ))}
+          </div>
+          <p className="text-xs text-gray-600">Força da senha: {STRENGTH_LABELS[strength]}</p>
+        </div>
+      )}
+
+      {requirements.length > 0 && (
+        <ul className="space-y-1">
+          {requirements.map((requirement) => (
+            <li
+              key={requirement.label}
+              className={`flex items-center text-xs ${requirement.met ? "text-green-600" : "text-gray-500"}`}
+            >
+              {requirement.met ? <Check className="w-3 h-3 mr-1" /> : <X className="w-3 h-3 mr-1" />}
+              {requirement.label}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
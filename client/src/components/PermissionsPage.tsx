@@ -0,0 +1,371 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getProfileLabel } from "@/lib/authUtils";
+import { MODULE_LABELS, ACTION_LABELS, getPermissionLabel } from "@/lib/permissionLabels";
+import { usePermissions } from "@/hooks/usePermissions";
+import { Check, Loader2, Minus, RotateCcw, Save, X } from "lucide-react";
+
+type OverrideEffect = "GRANT" | "REVOKE";
+
+interface PermissionMatrix {
+  profiles: string[];
+  catalogue: Record<string, string[]>;
+  matrix: Record<string, string[]>;
+}
+
+interface PermissionOverride {
+  profile: string;
+  permission: string;
+  effect: OverrideEffect;
+}
+
+interface WorkGroup {
+  id: string;
+  name: string;
+}
+
+// Keyed by "profile|module:ACTION"; a boolean for the profile matrix, an effect for work group overrides
+type PendingChanges = Record<string, boolean | OverrideEffect | null>;
+
+const PROFILE_MATRIX = "profiles";
+
+const EFFECT_LABELS: Record<string, string> = {
+  GRANT: "Permitir",
+  REVOKE: "Negar",
+  inherit: "Herdar do perfil",
+};
+
+function nextEffect(effect: OverrideEffect | null): OverrideEffect | null {
+  if (effect === null) return "GRANT";
+  if (effect === "GRANT") return "REVOKE";
+  return null;
+}
+
+export default function PermissionsPage() {
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const [target, setTarget] = useState(PROFILE_MATRIX);
+  const [pendingChanges, setPendingChanges] = useState<PendingChanges>({});
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+
+  const isProfileMatrix = target === PROFILE_MATRIX;
+  const canEdit = can("permissions", "EDIT");
+  const overridesUrl = `/api/work-groups/${target}/permissions`;
+
+  const { data, isLoading } = useQuery<PermissionMatrix>({
+    queryKey: ["/api/permissions"],
+  });
+
+  const { data: workGroups = [] } = useQuery<WorkGroup[]>({
+    queryKey: ["/api/work-groups"],
+  });
+
+  const { data: overrides = [], isLoading: isOverridesLoading } = useQuery<PermissionOverride[]>({
+    queryKey: [overridesUrl],
+    enabled: !isProfileMatrix,
+  });
+
+  useEffect(() => {
+    setPendingChanges({});
+  }, [target]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (changes: PendingChanges) => {
+      const entries = Object.entries(changes).map(([key, value]) => {
+        const [profile, permission] = key.split("|");
+        return { profile, permission, value };
+      });
+
+      if (isProfileMatrix) {
+        await apiRequest("PUT", "/api/permissions", {
+          changes: entries.map(({ profile, permission, value }) => ({ profile, permission, granted: value })),
+        });
+      } else {
+        await apiRequest("PUT", overridesUrl, {
+          changes: entries.map(({ profile, permission, value }) => ({ profile, permission, effect: value })),
+        });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [isProfileMatrix ? "/api/permissions" : overridesUrl] });
+      // The current user's own permissions may have changed
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      setPendingChanges({});
+      setIsReviewOpen(false);
+      toast({
+        title: "Permissões atualizadas",
+        description: "As alterações foram salvas e registradas na auditoria.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível salvar as permissões.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isGranted = (profile: string, permission: string) =>
+    data?.matrix[profile]?.includes(permission) ?? false;
+
+  const getOverride = (profile: string, permission: string): OverrideEffect | null =>
+    overrides.find((override) => override.profile === profile && override.permission === permission)?.effect ?? null;
+
+  const getSavedValue = (profile: string, permission: string) =>
+    isProfileMatrix ? isGranted(profile, permission) : getOverride(profile, permission);
+
+  const getCurrentValue = (profile: string, permission: string) => {
+    const key = `${profile}|${permission}`;
+    return key in pendingChanges ? pendingChanges[key] : getSavedValue(profile, permission);
+  };
+
+  // Changes that bring a cell back to its saved value are dropped, so the review only lists real differences
+  const handleChange = (profile: string, permission: string, value: boolean | OverrideEffect | null) => {
+    const key = `${profile}|${permission}`;
+    setPendingChanges((previous) => {
+      const { [key]: _, ...rest } = previous;
+      return value === getSavedValue(profile, permission) ? rest : { ...rest, [key]: value };
+    });
+  };
+
+  const describeValue = (value: boolean | OverrideEffect | null) => {
+    if (isProfileMatrix) return value ? "Permitido" : "Negado";
+    return EFFECT_LABELS[value === null ? "inherit" : (value as string)];
+  };
+
+  const pendingCount = Object.keys(pendingChanges).length;
+  const selectedGroup = workGroups.find((group) => group.id === target);
+
+  if (isLoading || !data) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="animate-pulse space-y-4">
+            <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+            <div className="h-10 bg-gray-200 rounded"></div>
+            {[...Array(8)].map((_, i) => (
+              <div key={i} className="h-8 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Administrators always hold every permission, so their column is shown but never editable
+  const editableProfiles = data.profiles.filter((profile) => profile !== "ADMINISTRATOR");
+
+  const renderCell = (profile: string, permission: string) => {
+    const key = `${profile}|${permission}`;
+    const isChanged = key in pendingChanges;
+
+    if (profile === "ADMINISTRATOR") {
+      return <Checkbox checked disabled aria-label={`${getProfileLabel(profile)}: ${getPermissionLabel(permission)}`} />;
+    }
+
+    if (isProfileMatrix) {
+      return (
+        <div className={`inline-flex rounded p-1 ${isChanged ? "bg-amber-100" : ""}`}>
+          <Checkbox
+            checked={getCurrentValue(profile, permission) as boolean}
+            onCheckedChange={(checked) => handleChange(profile, permission, checked === true)}
+            disabled={!canEdit}
+            aria-label={`${getProfileLabel(profile)}: ${getPermissionLabel(permission)}`}
+          />
+        </div>
+      );
+    }
+
+    const effect = getCurrentValue(profile, permission) as OverrideEffect | null;
+    const inherited = isGranted(profile, permission);
+
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className={`h-8 w-8 p-0 ${isChanged ? "bg-amber-100 hover:bg-amber-200" : ""}`}
+        onClick={() => handleChange(profile, permission, nextEffect(effect))}
+        disabled={!canEdit}
+        title={`${EFFECT_LABELS[effect ?? "inherit"]}${effect === null ? ` (${inherited ? "permitido" : "negado"})` : ""}`}
+      >
+        {effect === "GRANT" && <Check className="w-4 h-4 text-green-600" />}
+        {effect === "REVOKE" && <X className="w-4 h-4 text-red-600" />}
+        {effect === null && (inherited
+          ? <Check className="w-4 h-4 text-gray-300" />
+          : <Minus className="w-4 h-4 text-gray-300" />)}
+      </Button>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <CardTitle>Permissões</CardTitle>
+              <p className="text-gray-600 mt-1">
+                {isProfileMatrix
+                  ? "Defina as ações disponíveis para cada perfil de acesso"
+                  : `Ajuste as permissões dos perfis para os membros do grupo ${selectedGroup?.name || ""}`}
+              </p>
+            </div>
+            {canEdit && (
+              <div className="flex space-x-2">
+                <Button variant="outline" onClick={() => setPendingChanges({})} disabled={pendingCount === 0}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Descartar
+                </Button>
+                <Button onClick={() => setIsReviewOpen(true)} disabled={pendingCount === 0}>
+                  <Save className="w-4 h-4 mr-2" />
+                  Revisar alterações{pendingCount > 0 ? ` (${pendingCount})` : ""}
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4 mb-6">
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger className="w-full sm:w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PROFILE_MATRIX}>Matriz padrão dos perfis</SelectItem>
+                {workGroups.map((group) => (
+                  <SelectItem key={group.id} value={group.id}>
+                    Grupo: {group.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!isProfileMatrix && (
+              <div className="flex items-center gap-4 text-xs text-gray-500">
+                <span className="flex items-center gap-1"><Check className="w-3 h-3 text-green-600" /> Permitir</span>
+                <span className="flex items-center gap-1"><X className="w-3 h-3 text-red-600" /> Negar</span>
+                <span className="flex items-center gap-1"><Check className="w-3 h-3 text-gray-300" /> Herdado do perfil</span>
+              </div>
+            )}
+          </div>
+
+          {!isProfileMatrix && isOverridesLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Ação</TableHead>
+                    {data.profiles.map((profile) => (
+                      <TableHead key={profile} className="text-center">
+                        {getProfileLabel(profile)}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {Object.entries(data.catalogue).map(([module, actions]) => [
+                    <TableRow key={module} className="bg-gray-50 hover:bg-gray-50">
+                      <TableCell colSpan={data.profiles.length + 1} className="font-semibold text-gray-900">
+                        {MODULE_LABELS[module] || module}
+                      </TableCell>
+                    </TableRow>,
+                    ...actions.map((action) => {
+                      const permission = `${module}:${action}`;
+                      return (
+                        <TableRow key={permission}>
+                          <TableCell className="pl-8 text-gray-700">{ACTION_LABELS[action] || action}</TableCell>
+                          {data.profiles.map((profile) => (
+                            <TableCell key={profile} className="text-center">
+                              {renderCell(profile, permission)}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      );
+                    }),
+                  ])}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500 mt-4">
+            O perfil Administrador possui todas as permissões e não pode ser alterado.
+            {!isProfileMatrix && " Nos grupos, a negação prevalece quando o usuário pertence a mais de um grupo."}
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Review Changes */}
+      <Dialog open={isReviewOpen} onOpenChange={setIsReviewOpen}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              Revisar alterações {isProfileMatrix ? "da matriz padrão" : `do grupo ${selectedGroup?.name || ""}`}
+            </DialogTitle>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Perfil</TableHead>
+                <TableHead>Permissão</TableHead>
+                <TableHead>Antes</TableHead>
+                <TableHead>Depois</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {editableProfiles.flatMap((profile) =>
+                Object.entries(pendingChanges)
+                  .filter(([key]) => key.startsWith(`${profile}|`))
+                  .map(([key, value]) => {
+                    const permission = key.split("|")[1];
+                    return (
+                      <TableRow key={key}>
+                        <TableCell>{getProfileLabel(profile)}</TableCell>
+                        <TableCell>{getPermissionLabel(permission)}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{describeValue(getSavedValue(profile, permission))}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Badge>{describeValue(value)}</Badge>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+              )}
+            </TableBody>
+          </Table>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsReviewOpen(false)}>
+              Voltar
+            </Button>
+            <Button onClick={() => saveMutation.mutate(pendingChanges)} disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Salvar alterações
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+import TwoFactorSettings from "./TwoFactorSettings";
+import ActiveSessionsPanel from "./ActiveSessionsPanel";
+
+export default function SecurityPage() {
+  return (
+    <div className="space-y-6">
+      <TwoFactorSettings />
+      <ActiveSessionsPanel />
+    </div>
+  );
+}
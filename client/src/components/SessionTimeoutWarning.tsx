@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { getLastApiActivity } from "@/lib/queryClient";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+// How long before expiry the warning is shown
+const WARNING_BEFORE_EXPIRY_MS = 2 * 60 * 1000;
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+export default function SessionTimeoutWarning() {
+  const { user, keepAlive, isKeepAliveLoading, logout, expireSession } = useAuth();
+  const { toast } = useToast();
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  // The countdown keeps ticking after expiry, so the session is only expired once
+  const hasExpiredRef = useRef(false);
+
+  const idleTimeoutMs = (user?.sessionIdleTimeoutMinutes || 30) * 60 * 1000;
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setRemainingMs(idleTimeoutMs - (Date.now() - getLastApiActivity()));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [idleTimeoutMs]);
+
+  useEffect(() => {
+    if (remainingMs === null) {
+      return;
+    }
+
+    if (remainingMs > 0) {
+      hasExpiredRef.current = false;
+    } else if (!hasExpiredRef.current) {
+      hasExpiredRef.current = true;
+      expireSession();
+      toast({
+        title: "Sessão expirada",
+        description: "Sua sessão expirou por inatividade. Faça login novamente.",
+        variant: "destructive",
+      });
+    }
+  }, [remainingMs]);
+
+  const handleStaySignedIn = async () => {
+    try {
+      await keepAlive();
+      setRemainingMs(idleTimeoutMs);
+    } catch (error) {
+      expireSession();
+    }
+  };
+
+  const isOpen = remainingMs !== null && remainingMs > 0 && remainingMs <= WARNING_BEFORE_EXPIRY_MS;
+
+  return (
+    <AlertDialog open={isOpen}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Sua sessão está prestes a expirar</AlertDialogTitle>
+          <AlertDialogDescription>
+            Por inatividade, você será desconectado em{" "}
+            <span className="font-medium">{formatRemaining(remainingMs || 0)}</span>.
+            Deseja continuar conectado?
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => logout()}>Sair</AlertDialogCancel>
+          <AlertDialogAction onClick={handleStaySignedIn} disabled={isKeepAliveLoading}>
+            Continuar conectado
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
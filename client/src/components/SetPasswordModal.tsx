@@ -0,0 +1,142 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getFullName } from "@/lib/authUtils";
+import { getPasswordPolicyErrorMessage } from "@/lib/passwordPolicy";
+import PasswordStrengthMeter from "./PasswordStrengthMeter";
+import { Loader2 } from "lucide-react";
+
+const setPasswordSchema = z.object({
+  newPassword: z.string().min(1, "Nova senha é obrigatória"),
+  confirmPassword: z.string().min(1, "Confirme a nova senha"),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "As senhas não coincidem",
+  path: ["confirmPassword"],
+});
+
+type SetPasswordFormData = z.infer<typeof setPasswordSchema>;
+
+interface SetPasswordModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  } | null;
+}
+
+export default function SetPasswordModal({ open, onOpenChange, user }: SetPasswordModalProps) {
+  const { toast } = useToast();
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+    reset,
+  } = useForm<SetPasswordFormData>({
+    resolver: zodResolver(setPasswordSchema),
+  });
+
+  useEffect(() => {
+    if (open) {
+      reset();
+    }
+  }, [open, reset]);
+
+  const setPasswordMutation = useMutation({
+    mutationFn: async (data: SetPasswordFormData) => {
+      await apiRequest("POST", `/api/users/${user!.id}/set-password`, {
+        newPassword: data.newPassword,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Senha definida",
+        description: "A nova senha foi definida e as sessões ativas do usuário foram encerradas.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description:
+          getPasswordPolicyErrorMessage(error as Error) ||
+          "Não foi possível definir a senha.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            Definir senha de {user ? getFullName(user.firstName, user.lastName) : ""}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit((data) => setPasswordMutation.mutate(data))} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="newPassword">Nova senha</Label>
+            <Input
+              id="newPassword"
+              type="password"
+              placeholder="••••••••"
+              {...register("newPassword")}
+              className={errors.newPassword ? "border-destructive" : ""}
+            />
+            {errors.newPassword && (
+              <p className="text-sm text-destructive">{errors.newPassword.message}</p>
+            )}
+            <PasswordStrengthMeter password={watch("newPassword") || ""} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="confirmPassword">Confirmar nova senha</Label>
+            <Input
+              id="confirmPassword"
+              type="password"
+              placeholder="••••••••"
+              {...register("confirmPassword")}
+              className={errors.confirmPassword ? "border-destructive" : ""}
+            />
+            {errors.confirmPassword && (
+              <p className="text-sm text-destructive">{errors.confirmPassword.message}</p>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            A senha é definitiva: o usuário não precisará alterá-la no próximo acesso.
+          </p>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={setPasswordMutation.isPending}>
+              {setPasswordMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Definir senha
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
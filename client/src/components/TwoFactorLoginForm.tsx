@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { isRateLimitedError } from "@/lib/authUtils";
+import { Loader2 } from "lucide-react";
+
+interface TwoFactorLoginFormProps {
+  challengeToken: string;
+  onCancel: () => void;
+}
+
+function getVerificationErrorMessage(error: Error): string {
+  if (isRateLimitedError(error)) {
+    return "Muitas tentativas de login. Aguarde alguns minutos e tente novamente.";
+  }
+  if (error.message.includes("challenge")) {
+    return "A verificação expirou. Faça login novamente.";
+  }
+  return "Código de verificação inválido. Tente novamente.";
+}
+
+export default function TwoFactorLoginForm({ challengeToken, onCancel }: TwoFactorLoginFormProps) {
+  const { verifyTwoFactor, isVerifyTwoFactorLoading } = useAuth();
+  const { toast } = useToast();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const canSubmit = useRecoveryCode ? recoveryCode.trim().length > 0 : code.length === 6;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    try {
+      await verifyTwoFactor(
+        useRecoveryCode
+          ? { challengeToken, recoveryCode: recoveryCode.trim() }
+          : { challengeToken, code }
+      );
+      toast({
+        title: "Login realizado",
+        description: "Bem-vindo ao MeC ONE!",
+      });
+    } catch (error) {
+      setError(getVerificationErrorMessage(error as Error));
+      setCode("");
+    }
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setError(null);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {useRecoveryCode ? (
+        <div className="space-y-2">
+          <Label htmlFor="recoveryCode">Código de recuperação</Label>
+          <Input
+            id="recoveryCode"
+            placeholder="xxxxx-xxxxx"
+            autoComplete="off"
+            value={recoveryCode}
+            onChange={(e) => setRecoveryCode(e.target.value)}
+          />
+          <p className="text-sm text-gray-600">
+            Cada código de recuperação pode ser usado apenas uma vez.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label>Código de verificação</Label>
+          <p className="text-sm text-gray-600">
+            Digite o código de 6 dígitos exibido no seu aplicativo autenticador.
+          </p>
+          <div className="flex justify-center">
+            <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+              <InputOTPGroup>
+                {[...Array(6)].map((_, i) => (
+                  <InputOTPSlot key={i} index={i} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={!canSubmit || isVerifyTwoFactorLoading}
+      >
+        {isVerifyTwoFactorLoading ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Verificando...
+          </>
+        ) : (
+          "Verificar"
+        )}
+      </Button>
+
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="link"
+          className="text-sm text-primary-600 hover:text-primary-700 p-0"
+          onClick={toggleRecoveryCode}
+        >
+          {useRecoveryCode ? "Usar aplicativo autenticador" : "Usar código de recuperação"}
+        </Button>
+        <Button
+          type="button"
+          variant="link"
+          className="text-sm text-gray-600 p-0"
+          onClick={onCancel}
+        >
+          Voltar
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import TwoFactorSetup from "./TwoFactorSetup";
+
+export default function TwoFactorSettings() {
+  const { user, disableTwoFactor, isDisableTwoFactorLoading, refetchUser } = useAuth();
+  const { toast } = useToast();
+  const [showDisableDialog, setShowDisableDialog] = useState(false);
+  const [password, setPassword] = useState("");
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await disableTwoFactor(password);
+      setShowDisableDialog(false);
+      toast({
+        title: "Verificação desativada",
+        description: "A verificação em duas etapas foi desativada.",
+      });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: (error as Error).message.startsWith("403")
+          ? "A verificação em duas etapas é obrigatória para o seu perfil."
+          : "Não foi possível desativar. Verifique a senha informada.",
+        variant: "destructive",
+      });
+    } finally {
+      setPassword("");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Verificação em duas etapas</CardTitle>
+          {user?.twoFactorEnabled ? (
+            <Badge variant="default">Ativada</Badge>
+          ) : (
+            <Badge variant="secondary">Desativada</Badge>
+          )}
+        </div>
+        <p className="text-gray-600 mt-1">
+          Exige um código do aplicativo autenticador além da senha ao entrar
+        </p>
+      </CardHeader>
+
+      <CardContent>
+        {user?.twoFactorEnabled ? (
+          <Button variant="outline" onClick={() => setShowDisableDialog(true)}>
+            Desativar
+          </Button>
+        ) : (
+          <TwoFactorSetup onComplete={() => refetchUser()} />
+        )}
+      </CardContent>
+
+      <Dialog open={showDisableDialog} onOpenChange={setShowDisableDialog}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Desativar verificação em duas etapas</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleDisable} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="disableTwoFactorPassword">Confirme sua senha</Label>
+              <Input
+                id="disableTwoFactorPassword"
+                type="password"
+                placeholder="••••••••"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowDisableDialog(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" variant="destructive" disabled={!password || isDisableTwoFactorLoading}>
+                {isDisableTwoFactorLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Desativar
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { useAuth, type TwoFactorSetupResponse } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Copy, Loader2 } from "lucide-react";
+
+interface TwoFactorSetupProps {
+  onComplete: () => void;
+}
+
+// Walks the user through scanning the QR code, confirming a code and saving the recovery codes
+export default function TwoFactorSetup({ onComplete }: TwoFactorSetupProps) {
+  const { setupTwoFactor, enableTwoFactor, isSetupTwoFactorLoading, isEnableTwoFactorLoading } = useAuth();
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const handleStart = async () => {
+    try {
+      setSetup(await setupTwoFactor());
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível iniciar a configuração da verificação em duas etapas.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.length !== 6) return;
+
+    try {
+      const { recoveryCodes } = await enableTwoFactor(code);
+      setRecoveryCodes(recoveryCodes);
+    } catch (error) {
+      setCode("");
+      toast({
+        title: "Código inválido",
+        description: "O código informado não confere. Verifique o aplicativo e tente novamente.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCopyRecoveryCodes = async () => {
+    await navigator.clipboard.writeText(recoveryCodes!.join("\n"));
+    toast({
+      title: "Copiado",
+      description: "Códigos de recuperação copiados para a área de transferência.",
+    });
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Guarde estes códigos de recuperação em um local seguro. Cada um pode ser usado uma única vez
+          para entrar caso você perca acesso ao aplicativo autenticador. Eles não serão exibidos novamente.
+        </p>
+        <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 border rounded-md font-mono text-sm">
+          {recoveryCodes.map((recoveryCode) => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={handleCopyRecoveryCodes}>
+            <Copy className="w-4 h-4 mr-2" />
+            Copiar
+          </Button>
+          <Button type="button" onClick={onComplete}>
+            Concluir
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!setup) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Use um aplicativo autenticador (Google Authenticator, Microsoft Authenticator, Authy etc.)
+          para gerar um código a cada login.
+        </p>
+        <Button type="button" onClick={handleStart} disabled={isSetupTwoFactorLoading}>
+          {isSetupTwoFactorLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Configurar verificação em duas etapas
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleEnable} className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Escaneie o QR code com o aplicativo autenticador ou digite a chave manualmente.
+      </p>
+      <div className="flex justify-center">
+        <img src={setup.qrCodeDataUrl} alt="QR code da verificação em duas etapas" className="w-48 h-48" />
+      </div>
+      <p className="text-center font-mono text-xs break-all text-gray-700">{setup.secret}</p>
+
+      <div className="space-y-2">
+        <Label>Código de verificação</Label>
+        <div className="flex justify-center">
+          <InputOTP maxLength={6} value={code} onChange={setCode}>
+            <InputOTPGroup>
+              {[...Array(6)].map((_, i) => (
+                <InputOTPSlot key={i} index={i} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={code.length !== 6 || isEnableTwoFactorLoading}
+      >
+        {isEnableTwoFactorLoading ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Ativando...
+          </>
+        ) : (
+          "Ativar"
+        )}
+      </Button>
+    </form>
+  );
+}
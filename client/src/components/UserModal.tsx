@@ -20,9 +20,19 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { Loader2 } from "lucide-react";
+import { Check, ChevronsUpDown, Loader2, X } from "lucide-react";
 
 const userSchema = z.object({
   firstName: z.string().min(1, "Nome é obrigatório"),
@@ -31,7 +41,7 @@ const userSchema = z.object({
   profile: z.enum(["ADMINISTRATOR", "MANAGER", "COORDINATOR", "NEGOTIATOR", "LAWYER", "CONTROLLER"], {
     errorMap: () => ({ message: "Perfil é obrigatório" }),
   }),
-  workGroupId: z.string().optional(),
+  workGroupIds: z.array(z.string()).default([]),
   isActive: z.boolean().default(true),
 });
 
@@ -142,7 +152,7 @@ export default function UserModal({ open, onOpenChange, user }: UserModalProps)
         lastName: user.lastName,
         email: user.email,
         profile: user.profile as any,
-        workGroupId: user.userWorkGroups[0]?.workGroup.id || undefined,
+        workGroupIds: user.userWorkGroups.map((userGroup) => userGroup.workGroup.id),
         isActive: user.isActive,
       });
     } else if (!user && open) {
@@ -151,7 +161,7 @@ export default function UserModal({ open, onOpenChange, user }: UserModalProps)
         lastName: "",
         email: "",
         profile: undefined,
-        workGroupId: undefined,
+        workGroupIds: [],
         isActive: true,
       });
     }
@@ -167,6 +177,23 @@ export default function UserModal({ open, onOpenChange, user }: UserModalProps)
 
   const isLoading = createMutation.isPending || updateMutation.isPending;
 
+  const selectedWorkGroupIds = watch("workGroupIds") || [];
+
+  // Groups the user already belongs to may be outside the list the current user can see
+  const getWorkGroupName = (groupId: string) =>
+    workGroups.find((group) => group.id === groupId)?.name ||
+    user?.userWorkGroups.find((userGroup) => userGroup.workGroup.id === groupId)?.workGroup.name ||
+    groupId;
+
+  const toggleWorkGroup = (groupId: string) => {
+    setValue(
+      "workGroupIds",
+      selectedWorkGroupIds.includes(groupId)
+        ? selectedWorkGroupIds.filter((id) => id !== groupId)
+        : [...selectedWorkGroupIds, groupId]
+    );
+  };
+
   const profileOptions = [
     { value: "ADMINISTRATOR", label: "Administrador" },
     { value: "MANAGER", label: "Gerente" },
@@ -251,24 +278,64 @@ export default function UserModal({ open, onOpenChange, user }: UserModalProps)
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="workGroup">Grupo de Trabalho</Label>
-            <Select
-              value={watch("workGroupId") || ""}
-              onValueChange={(value) => setValue("workGroupId", value || undefined)}
-            >
-              <SelectTrigger className={errors.workGroupId ? "border-destructive" : ""}>
-                <SelectValue placeholder="Selecione o grupo de trabalho" />
-              </SelectTrigger>
-              <SelectContent>
-                {workGroups.map((group) => (
-                  <SelectItem key={group.id} value={group.id}>
-                    {group.name}
-                  </SelectItem>
+            <Label htmlFor="workGroups">Grupos de Trabalho</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  id="workGroups"
+                  type="button"
+                  variant="outline"
+                  role="combobox"
+                  className={`w-full justify-between font-normal ${errors.workGroupIds ? "border-destructive" : ""}`}
+                >
+                  {selectedWorkGroupIds.length > 0
+                    ? `${selectedWorkGroupIds.length} grupo(s) selecionado(s)`
+                    : "Selecione os grupos de trabalho"}
+                  <ChevronsUpDown className="w-4 h-4 opacity-50" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+                <Command>
+                  <CommandInput placeholder="Buscar grupo..." />
+                  <CommandList>
+                    <CommandEmpty>Nenhum grupo encontrado</CommandEmpty>
+                    <CommandGroup>
+                      {workGroups.map((group) => (
+                        <CommandItem
+                          key={group.id}
+                          value={group.name}
+                          onSelect={() => toggleWorkGroup(group.id)}
+                        >
+                          <Check
+                            className={`w-4 h-4 mr-2 ${selectedWorkGroupIds.includes(group.id) ? "opacity-100" : "opacity-0"}`}
+                          />
+                          {group.name}
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                  </CommandList>
+                </Command>
+              </PopoverContent>
+            </Popover>
+            {selectedWorkGroupIds.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {selectedWorkGroupIds.map((groupId) => (
+                  <Badge key={groupId} variant="secondary" className="pr-1">
+                    {getWorkGroupName(groupId)}
+                    <button
+                      type="button"
+                      className="ml-1 rounded-full p-0.5 hover:bg-gray-300"
+                      onClick={() => toggleWorkGroup(groupId)}
+                      aria-label={`Remover ${getWorkGroupName(groupId)}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
                 ))}
-              </SelectContent>
-            </Select>
-            {errors.workGroupId && (
-              <p className="text-sm text-destructive">{errors.workGroupId.message}</p>
+              </div>
+            )}
+            {errors.workGroupIds && (
+              <p className="text-sm text-destructive">{errors.workGroupIds.message}</p>
             )}
           </div>
 
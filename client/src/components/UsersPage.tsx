@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,10 +8,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { getInitials, getFullName, getProfileLabel, canManageUsers, canDeleteUsers } from "@/lib/authUtils";
+import { getInitials, getFullName, getProfileLabel } from "@/lib/authUtils";
 import { useAuth } from "@/hooks/useAuth";
 import UserModal from "./UserModal";
-import { Plus, Search, Edit, Trash2, MoreHorizontal } from "lucide-react";
+import ActiveSessionsPanel from "./ActiveSessionsPanel";
+import SetPasswordModal from "./SetPasswordModal";
+import Can from "./Can";
+import { Plus, Search, Edit, Trash2, MoreHorizontal, MonitorSmartphone, LockOpen, ShieldOff, KeyRound, RotateCcw, Copy, Eye } from "lucide-react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -33,6 +38,8 @@ interface User {
   lastName: string;
   profile: string;
   isActive: boolean;
+  lockedUntil?: string | null;
+  twoFactorEnabled: boolean;
   lastLogin?: string;
   userWorkGroups: Array<{
     workGroup: {
@@ -43,13 +50,17 @@ interface User {
 }
 
 export default function UsersPage() {
-  const { user: currentUser } = useAuth();
+  const { impersonate } = useAuth();
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
   const [search, setSearch] = useState("");
   const [profileFilter, setProfileFilter] = useState("all");
   const [statusFilter, setStatusFilter] = useState("all");
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [sessionsUser, setSessionsUser] = useState<User | null>(null);
+  const [passwordUser, setPasswordUser] = useState<User | null>(null);
+  const [temporaryPassword, setTemporaryPassword] = useState<string | null>(null);
 
   const { data: users = [], isLoading } = useQuery<User[]>({
     queryKey: ["/api/users", { 
@@ -79,6 +90,103 @@ export default function UsersPage() {
     },
   });
 
+  const unlockMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("POST", `/api/users/${userId}/unlock`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Usuário desbloqueado",
+        description: "O usuário já pode fazer login novamente.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível desbloquear o usuário.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("POST", `/api/users/${userId}/2fa/reset`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Verificação redefinida",
+        description: "O usuário deverá configurar a verificação em duas etapas novamente.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível redefinir a verificação em duas etapas.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleResetTwoFactor = (user: User) => {
+    if (confirm(`Redefinir a verificação em duas etapas de ${getFullName(user.firstName, user.lastName)}? As sessões ativas do usuário serão encerradas.`)) {
+      resetTwoFactorMutation.mutate(user.id);
+    }
+  };
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (userId: string): Promise<{ temporaryPassword: string }> => {
+      const response = await apiRequest("POST", `/api/users/${userId}/reset-password`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setTemporaryPassword(data.temporaryPassword);
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível redefinir a senha.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleResetPassword = (user: User) => {
+    if (confirm(`Gerar uma nova senha temporária para ${getFullName(user.firstName, user.lastName)}? As sessões ativas do usuário serão encerradas.`)) {
+      resetPasswordMutation.mutate(user.id);
+    }
+  };
+
+  const handleCopyTemporaryPassword = async () => {
+    await navigator.clipboard.writeText(temporaryPassword!);
+    toast({
+      title: "Copiado",
+      description: "Senha copiada para a área de transferência.",
+    });
+  };
+
+  const handleImpersonate = async (user: User) => {
+    if (!confirm(`Acessar o sistema como ${getFullName(user.firstName, user.lastName)}? Todas as ações serão registradas em seu nome.`)) {
+      return;
+    }
+
+    try {
+      await impersonate(user.id);
+      setLocation("/");
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível acessar como este usuário.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isLocked = (user: User) => !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+
   const handleEditUser = (user: User) => {
     setEditingUser(user);
     setIsModalOpen(true);
@@ -95,9 +203,6 @@ export default function UsersPage() {
     setIsModalOpen(true);
   };
 
-  const canManage = canManageUsers(currentUser?.profile || "");
-  const canDelete = canDeleteUsers(currentUser?.profile || "");
-
   if (isLoading) {
     return (
       <Card>
@@ -125,12 +230,12 @@ export default function UsersPage() {
               <CardTitle>Gerenciamento de Usuários</CardTitle>
               <p className="text-gray-600 mt-1">Gerencie usuários, perfis e permissões</p>
             </div>
-            {canManage && (
+            <Can module="users" action="CREATE">
               <Button onClick={handleAddUser}>
                 <Plus className="w-4 h-4 mr-2" />
                 Novo Usuário
               </Button>
-            )}
+            </Can>
           </div>
         </CardHeader>
         
@@ -180,7 +285,7 @@ export default function UsersPage() {
                   <TableHead>Usuário</TableHead>
                   <TableHead>Email</TableHead>
                   <TableHead>Perfil</TableHead>
-                  <TableHead>Grupo</TableHead>
+                  <TableHead>Grupos</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Último Login</TableHead>
                   <TableHead className="w-12"></TableHead>
@@ -219,13 +324,17 @@ export default function UsersPage() {
                       </TableCell>
                       <TableCell className="text-gray-700">
                         {user.userWorkGroups.length > 0 
-                          ? user.userWorkGroups[0].workGroup.name 
+                          ? user.userWorkGroups.map((userGroup) => userGroup.workGroup.name).join(", ")
                           : "Nenhum"}
                       </TableCell>
                       <TableCell>
-                        <Badge variant={user.isActive ? "default" : "secondary"}>
-                          {user.isActive ? "Ativo" : "Inativo"}
-                        </Badge>
+                        {isLocked(user) ? (
+                          <Badge variant="destructive">Bloqueado</Badge>
+                        ) : (
+                          <Badge variant={user.isActive ? "default" : "secondary"}>
+                            {user.isActive ? "Ativo" : "Inativo"}
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell className="text-gray-700">
                         {user.lastLogin 
@@ -240,13 +349,51 @@ export default function UsersPage() {
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end">
-                            {canManage && (
+                            <Can module="users" action="EDIT">
                               <DropdownMenuItem onClick={() => handleEditUser(user)}>
                                 <Edit className="w-4 h-4 mr-2" />
                                 Editar
                               </DropdownMenuItem>
+                            </Can>
+                            {isLocked(user) && (
+                              <Can module="users" action="EDIT">
+                                <DropdownMenuItem onClick={() => unlockMutation.mutate(user.id)}>
+                                  <LockOpen className="w-4 h-4 mr-2" />
+                                  Desbloquear
+                                </DropdownMenuItem>
+                              </Can>
+                            )}
+                            <Can module="user-sessions" action="VIEW">
+                              <DropdownMenuItem onClick={() => setSessionsUser(user)}>
+                                <MonitorSmartphone className="w-4 h-4 mr-2" />
+                                Sessões ativas
+                              </DropdownMenuItem>
+                            </Can>
+                            {user.isActive && user.profile !== "ADMINISTRATOR" && (
+                              <Can module="impersonation" action="CREATE">
+                                <DropdownMenuItem onClick={() => handleImpersonate(user)}>
+                                  <Eye className="w-4 h-4 mr-2" />
+                                  Acessar como
+                                </DropdownMenuItem>
+                              </Can>
                             )}
-                            {canDelete && (
+                            <Can module="user-credentials" action="EDIT">
+                              <DropdownMenuItem onClick={() => handleResetPassword(user)}>
+                                <RotateCcw className="w-4 h-4 mr-2" />
+                                Redefinir senha
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => setPasswordUser(user)}>
+                                <KeyRound className="w-4 h-4 mr-2" />
+                                Definir senha
+                              </DropdownMenuItem>
+                              {user.twoFactorEnabled && (
+                                <DropdownMenuItem onClick={() => handleResetTwoFactor(user)}>
+                                  <ShieldOff className="w-4 h-4 mr-2" />
+                                  Redefinir 2FA
+                                </DropdownMenuItem>
+                              )}
+                            </Can>
+                            <Can module="users" action="DELETE">
                               <DropdownMenuItem 
                                 onClick={() => handleDeleteUser(user)}
                                 className="text-red-600"
@@ -254,7 +401,7 @@ export default function UsersPage() {
                                 <Trash2 className="w-4 h-4 mr-2" />
                                 Remover
                               </DropdownMenuItem>
-                            )}
+                            </Can>
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </TableCell>
@@ -282,6 +429,45 @@ export default function UsersPage() {
         onOpenChange={setIsModalOpen}
         user={editingUser}
       />
+
+      {/* User Sessions */}
+      <Dialog open={!!sessionsUser} onOpenChange={(open) => !open && setSessionsUser(null)}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              Sessões de {sessionsUser ? getFullName(sessionsUser.firstName, sessionsUser.lastName) : ""}
+            </DialogTitle>
+          </DialogHeader>
+          {sessionsUser && <ActiveSessionsPanel userId={sessionsUser.id} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* Set Password */}
+      <SetPasswordModal
+        open={!!passwordUser}
+        onOpenChange={(open) => !open && setPasswordUser(null)}
+        user={passwordUser}
+      />
+
+      {/* Temporary Password */}
+      <Dialog open={!!temporaryPassword} onOpenChange={(open) => !open && setTemporaryPassword(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Senha temporária gerada</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">
+            Informe esta senha ao usuário. Ela deverá ser alterada no próximo acesso e não será exibida novamente.
+          </p>
+          <Input readOnly value={temporaryPassword || ""} className="font-mono text-sm" onFocus={(e) => e.target.select()} />
+          <DialogFooter>
+            <Button variant="outline" onClick={handleCopyTemporaryPassword}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copiar
+            </Button>
+            <Button onClick={() => setTemporaryPassword(null)}>Concluir</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getInitials, getFullName } from "@/lib/authUtils";
+import { Loader2, Search, UserMinus, UserPlus } from "lucide-react";
+
+interface Member {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+interface WorkGroupWithMembers {
+  id: string;
+  userWorkGroups: Array<{ user: Member }>;
+}
+
+interface User extends Member {
+  isActive: boolean;
+}
+
+interface WorkGroupMembersPanelProps {
+  workGroupId: string;
+}
+
+const MAX_SEARCH_RESULTS = 8;
+
+export default function WorkGroupMembersPanel({ workGroupId }: WorkGroupMembersPanelProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [search, setSearch] = useState("");
+  const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
+  const workGroupUrl = `/api/work-groups/${workGroupId}`;
+
+  const { data: workGroup, isLoading } = useQuery<WorkGroupWithMembers>({
+    queryKey: [workGroupUrl],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+    enabled: can("users", "VIEW"),
+  });
+
+  const members = workGroup?.userWorkGroups.map((userGroup) => userGroup.user) ?? [];
+  const memberIds = members.map((member) => member.id);
+
+  const candidates = search.trim() === ""
+    ? []
+    : users
+        .filter((user) => user.isActive && !memberIds.includes(user.id))
+        .filter((user) =>
+          getFullName(user.firstName, user.lastName).toLowerCase().includes(search.toLowerCase()) ||
+          user.email.toLowerCase().includes(search.toLowerCase())
+        )
+        .slice(0, MAX_SEARCH_RESULTS);
+
+  const invalidateMembers = () => {
+    queryClient.invalidateQueries({ queryKey: [workGroupUrl] });
+    queryClient.invalidateQueries({ queryKey: ["/api/work-groups"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (userIds: string[]) => {
+      await apiRequest("POST", `${workGroupUrl}/members`, { userIds });
+    },
+    onSuccess: (_, userIds) => {
+      invalidateMembers();
+      setSelectedUserIds([]);
+      setSearch("");
+      toast({
+        title: "Membros adicionados",
+        description: `${userIds.length} ${userIds.length === 1 ? "usuário adicionado" : "usuários adicionados"} ao grupo.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível adicionar os membros.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userIds: string[]) => {
+      await apiRequest("DELETE", `${workGroupUrl}/members`, { userIds });
+    },
+    onSuccess: () => {
+      invalidateMembers();
+      toast({
+        title: "Membro removido",
+        description: "O usuário foi removido do grupo.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível remover o membro.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRemove = (member: Member) => {
+    if (confirm(`Remover ${getFullName(member.firstName, member.lastName)} do grupo?`)) {
+      removeMutation.mutate([member.id]);
+    }
+  };
+
+  const toggleSelected = (userId: string) => {
+    setSelectedUserIds((previous) =>
+      previous.includes(userId) ? previous.filter((id) => id !== userId) : [...previous, userId]
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse space-y-3">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="h-10 bg-gray-200 rounded"></div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {can("users", "VIEW") && (
+        <div className="space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <Input
+              placeholder="Buscar usuários por nome ou e-mail..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+
+          {search.trim() !== "" && (
+            <div className="rounded-md border divide-y">
+              {candidates.length === 0 ? (
+                <p className="p-3 text-sm text-gray-500">Nenhum usuário encontrado</p>
+              ) : (
+                candidates.map((user) => (
+                  <label key={user.id} className="flex items-center space-x-3 p-3 cursor-pointer hover:bg-gray-50">
+                    <Checkbox
+                      checked={selectedUserIds.includes(user.id)}
+                      onCheckedChange={() => toggleSelected(user.id)}
+                    />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">{getFullName(user.firstName, user.lastName)}</p>
+                      <p className="text-xs text-gray-500 truncate">{user.email}</p>
+                    </div>
+                  </label>
+                ))
+              )}
+            </div>
+          )}
+
+          {selectedUserIds.length > 0 && (
+            <Button
+              type="button"
+              onClick={() => addMutation.mutate(selectedUserIds)}
+              disabled={addMutation.isPending}
+            >
+              {addMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <UserPlus className="w-4 h-4 mr-2" />
+              )}
+              Adicionar {selectedUserIds.length} {selectedUserIds.length === 1 ? "usuário" : "usuários"}
+            </Button>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-900">
+          {members.length} {members.length === 1 ? "membro" : "membros"}
+        </p>
+        {members.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhum membro neste grupo.</p>
+        ) : (
+          <div className="rounded-md border divide-y max-h-72 overflow-y-auto">
+            {members.map((member) => (
+              <div key={member.id} className="flex items-center justify-between p-3">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <div className="w-8 h-8 bg-gray-300 rounded-full flex items-center justify-center flex-shrink-0">
+                    <span className="text-xs font-medium text-gray-600">
+                      {getInitials(member.firstName, member.lastName)}
+                    </span>
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">{getFullName(member.firstName, member.lastName)}</p>
+                    <p className="text-xs text-gray-500 truncate">{member.email}</p>
+                  </div>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(member)}
+                  disabled={removeMutation.isPending}
+                  className="text-red-600 hover:text-red-700"
+                  title="Remover do grupo"
+                >
+                  <UserMinus className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
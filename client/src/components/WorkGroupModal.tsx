@@ -14,8 +14,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import WorkGroupMembersPanel from "./WorkGroupMembersPanel";
 import { Loader2 } from "lucide-react";
 
 const workGroupSchema = z.object({
@@ -31,14 +33,6 @@ interface WorkGroup {
   name: string;
   description?: string;
   isActive: boolean;
-  userWorkGroups: Array<{
-    user: {
-      id: string;
-      firstName: string;
-      lastName: string;
-      email: string;
-    };
-  }>;
 }
 
 interface WorkGroupModalProps {
@@ -138,96 +132,98 @@ export default function WorkGroupModal({ open, onOpenChange, workGroup }: WorkGr
 
   const isLoading = createMutation.isPending || updateMutation.isPending;
 
+  const form = (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="name">Nome *</Label>
+        <Input
+          id="name"
+          placeholder="Digite o nome do grupo"
+          {...register("name")}
+          className={errors.name ? "border-destructive" : ""}
+        />
+        {errors.name && (
+          <p className="text-sm text-destructive">{errors.name.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="description">Descrição</Label>
+        <Textarea
+          id="description"
+          placeholder="Descreva o propósito e responsabilidades do grupo"
+          rows={3}
+          {...register("description")}
+        />
+        {errors.description && (
+          <p className="text-sm text-destructive">{errors.description.message}</p>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="isActive"
+          checked={watch("isActive")}
+          onCheckedChange={(checked) => setValue("isActive", checked as boolean)}
+        />
+        <Label htmlFor="isActive" className="text-sm font-medium">
+          Grupo ativo
+        </Label>
+      </div>
+
+      <div className="flex space-x-3 pt-6 border-t">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => onOpenChange(false)}
+          className="flex-1"
+        >
+          Cancelar
+        </Button>
+        <Button
+          type="submit"
+          disabled={isLoading}
+          className="flex-1"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              {isEdit ? "Atualizando..." : "Criando..."}
+            </>
+          ) : (
+            isEdit ? "Atualizar" : "Criar"
+          )}
+        </Button>
+      </div>
+    </form>
+  );
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-lg">
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
             {isEdit ? "Editar Grupo de Trabalho" : "Novo Grupo de Trabalho"}
           </DialogTitle>
         </DialogHeader>
 
-        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-          <div className="space-y-2">
-            <Label htmlFor="name">Nome *</Label>
-            <Input
-              id="name"
-              placeholder="Digite o nome do grupo"
-              {...register("name")}
-              className={errors.name ? "border-destructive" : ""}
-            />
-            {errors.name && (
-              <p className="text-sm text-destructive">{errors.name.message}</p>
-            )}
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="description">Descrição</Label>
-            <Textarea
-              id="description"
-              placeholder="Descreva o propósito e responsabilidades do grupo"
-              rows={3}
-              {...register("description")}
-            />
-            {errors.description && (
-              <p className="text-sm text-destructive">{errors.description.message}</p>
-            )}
-          </div>
-
-          <div className="flex items-center space-x-2">
-            <Checkbox
-              id="isActive"
-              checked={watch("isActive")}
-              onCheckedChange={(checked) => setValue("isActive", checked as boolean)}
-            />
-            <Label htmlFor="isActive" className="text-sm font-medium">
-              Grupo ativo
-            </Label>
-          </div>
-
-          {isEdit && workGroup && workGroup.userWorkGroups.length > 0 && (
-            <div className="space-y-2">
-              <Label>Membros Atuais</Label>
-              <div className="p-3 bg-muted rounded-lg">
-                <div className="space-y-1">
-                  {workGroup.userWorkGroups.map((userGroup) => (
-                    <div key={userGroup.user.id} className="text-sm">
-                      {userGroup.user.firstName} {userGroup.user.lastName} ({userGroup.user.email})
-                    </div>
-                  ))}
-                </div>
-                <p className="text-xs text-muted-foreground mt-2">
-                  {workGroup.userWorkGroups.length} {workGroup.userWorkGroups.length === 1 ? "membro" : "membros"}
-                </p>
-              </div>
-            </div>
-          )}
-
-          <div className="flex space-x-3 pt-6 border-t">
-            <Button
-              type="button"
-              variant="outline"
-              onClick={() => onOpenChange(false)}
-              className="flex-1"
-            >
-              Cancelar
-            </Button>
-            <Button
-              type="submit"
-              disabled={isLoading}
-              className="flex-1"
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  {isEdit ? "Atualizando..." : "Criando..."}
-                </>
-              ) : (
-                isEdit ? "Atualizar" : "Criar"
-              )}
-            </Button>
-          </div>
-        </form>
+        {/* Members are managed on their own tab once the group exists */}
+        {isEdit && workGroup ? (
+          <Tabs defaultValue="details">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="details">Dados</TabsTrigger>
+              <TabsTrigger value="members">Membros</TabsTrigger>
+            </TabsList>
+            <TabsContent value="details" className="pt-4">
+              {form}
+            </TabsContent>
+            <TabsContent value="members" className="pt-4">
+              <WorkGroupMembersPanel workGroupId={workGroup.id} />
+            </TabsContent>
+          </Tabs>
+        ) : (
+          form
+        )}
       </DialogContent>
     </Dialog>
   );
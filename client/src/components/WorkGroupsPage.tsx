@@ -7,8 +7,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { getInitials, canManageWorkGroups, canDeleteWorkGroups } from "@/lib/authUtils";
-import { useAuth } from "@/hooks/useAuth";
+import { getInitials } from "@/lib/authUtils";
+import { usePermissions } from "@/hooks/usePermissions";
 import WorkGroupModal from "./WorkGroupModal";
 import { Plus, Search, Edit, Trash2, Users } from "lucide-react";
 
@@ -29,7 +29,7 @@ interface WorkGroup {
 }
 
 export default function WorkGroupsPage() {
-  const { user: currentUser } = useAuth();
+  const { can } = usePermissions();
   const { toast } = useToast();
   const [search, setSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
@@ -79,8 +79,9 @@ export default function WorkGroupsPage() {
     setIsModalOpen(true);
   };
 
-  const canManage = canManageWorkGroups(currentUser?.profile || "");
-  const canDelete = canDeleteWorkGroups(currentUser?.profile || "");
+  const canCreate = can("work-groups", "CREATE");
+  const canEdit = can("work-groups", "EDIT");
+  const canDelete = can("work-groups", "DELETE");
 
   const filteredGroups = workGroups.filter(group => {
     const matchesSearch = search === "" || 
@@ -121,7 +122,7 @@ export default function WorkGroupsPage() {
               <CardTitle>Grupos de Trabalho</CardTitle>
               <p className="text-gray-600 mt-1">Organize usuários em grupos com permissões específicas</p>
             </div>
-            {canManage && (
+            {canCreate && (
               <Button onClick={handleAddGroup}>
                 <Plus className="w-4 h-4 mr-2" />
                 Novo Grupo
@@ -164,7 +165,7 @@ export default function WorkGroupsPage() {
                   ? "Tente ajustar os filtros de busca." 
                   : "Comece criando seu primeiro grupo de trabalho."}
               </p>
-              {canManage && !search && !statusFilter && (
+              {canCreate && !search && !statusFilter && (
                 <Button onClick={handleAddGroup}>
                   <Plus className="w-4 h-4 mr-2" />
                   Criar Primeiro Grupo
@@ -180,9 +181,9 @@ export default function WorkGroupsPage() {
                       <div className="w-12 h-12 bg-primary-100 rounded-lg flex items-center justify-center">
                         <Users className="w-6 h-6 text-primary-600" />
                       </div>
-                      {(canManage || canDelete) && (
+                      {(canEdit || canDelete) && (
                         <div className="flex space-x-2">
-                          {canManage && (
+                          {canEdit && (
                             <Button
                               variant="ghost"
                               size="sm"
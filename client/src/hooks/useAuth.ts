@@ -1,5 +1,5 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, fetchWithSession, hasSessionCookie } from "@/lib/queryClient";
 
 interface User {
   id: string;
@@ -9,12 +9,25 @@ interface User {
   profile: string;
   isActive: boolean;
   mustChangePassword: boolean;
+  passwordExpired: boolean;
+  twoFactorEnabled: boolean;
+  twoFactorSetupRequired: boolean;
   lastLogin?: string;
+  sessionIdleTimeoutMinutes: number;
   workGroups: Array<{
     id: string;
     name: string;
     description?: string;
   }>;
+  // Effective permissions of the user, e.g. "entities:EDIT"
+  permissions: string[];
+  // Set while an administrator is accessing the system as this user
+  impersonator: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+  } | null;
 }
 
 interface LoginData {
@@ -22,36 +35,54 @@ interface LoginData {
   password: string;
 }
 
-interface LoginResponse {
-  accessToken: string;
-  refreshToken: string;
+interface ChangePasswordData {
+  currentPassword: string;
+  newPassword: string;
+}
+
+interface ResetPasswordData {
+  token: string;
+  newPassword: string;
+}
+
+interface TwoFactorLoginData {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+// The tokens themselves are set as httpOnly cookies
+interface TokenResponse {
   user: User;
 }
 
+// Accounts with two-factor enabled receive a challenge instead of a session
+interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+type LoginResponse = TokenResponse | TwoFactorChallengeResponse;
+
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
 export function useAuth() {
   const { data: user, isLoading, refetch } = useQuery<User | null>({
     queryKey: ["/api/auth/me"],
     retry: false,
     staleTime: 5 * 60 * 1000, // 5 minutes
     queryFn: async () => {
-      const accessToken = localStorage.getItem("accessToken");
-      if (!accessToken) {
-        return null; // No token, user is not authenticated
+      if (!hasSessionCookie()) {
+        return null; // No session cookie, user is not authenticated
       }
-      
-      const headers: Record<string, string> = {
-        "Authorization": `Bearer ${accessToken}`,
-      };
 
-      const res = await fetch("/api/auth/me", {
-        headers,
-        credentials: "include",
-      });
+      const res = await fetchWithSession("/api/auth/me");
 
       if (res.status === 401) {
-        // Token is invalid, clear it and return null
-        localStorage.removeItem("accessToken");
-        localStorage.removeItem("refreshToken");
         return null;
       }
 
@@ -69,20 +100,39 @@ export function useAuth() {
       return response.json();
     },
     onSuccess: (data) => {
-      localStorage.setItem("accessToken", data.accessToken);
-      localStorage.setItem("refreshToken", data.refreshToken);
+      if ("user" in data) {
+        refetch();
+      }
+    },
+  });
+
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: async (data: TwoFactorLoginData): Promise<TokenResponse> => {
+      const response = await apiRequest("POST", "/api/auth/login/2fa", data);
+      return response.json();
+    },
+    onSuccess: () => {
       refetch();
     },
   });
 
+  const exchangeSsoTicketMutation = useMutation({
+    mutationFn: async (ticket: string): Promise<LoginResponse> => {
+      const response = await apiRequest("POST", "/api/auth/sso/exchange", { ticket });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      if ("user" in data) {
+        refetch();
+      }
+    },
+  });
+
   const logoutMutation = useMutation({
     mutationFn: async () => {
-      const refreshToken = localStorage.getItem("refreshToken");
-      await apiRequest("POST", "/api/auth/logout", { refreshToken });
+      await apiRequest("POST", "/api/auth/logout");
     },
     onSuccess: () => {
-      localStorage.removeItem("accessToken");
-      localStorage.removeItem("refreshToken");
       refetch();
     },
   });
@@ -93,17 +143,108 @@ export function useAuth() {
     },
   });
 
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (data: ResetPasswordData) => {
+      await apiRequest("POST", "/api/auth/reset-password", data);
+    },
+  });
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async (data: ChangePasswordData) => {
+      await apiRequest("POST", "/api/auth/change-password", data);
+    },
+    onSuccess: () => {
+      refetch();
+    },
+  });
+
+  const keepAliveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/keep-alive");
+    },
+  });
+
+  const setupTwoFactorMutation = useMutation({
+    mutationFn: async (): Promise<TwoFactorSetupResponse> => {
+      const response = await apiRequest("POST", "/api/auth/2fa/setup");
+      return response.json();
+    },
+  });
+
+  const enableTwoFactorMutation = useMutation({
+    mutationFn: async (code: string): Promise<{ recoveryCodes: string[] }> => {
+      const response = await apiRequest("POST", "/api/auth/2fa/enable", { code });
+      return response.json();
+    },
+  });
+
+  const disableTwoFactorMutation = useMutation({
+    mutationFn: async (password: string) => {
+      await apiRequest("POST", "/api/auth/2fa/disable", { password });
+    },
+    onSuccess: () => {
+      refetch();
+    },
+  });
+
+  // Every cached query belonged to the previous identity, so all of them are reset
+  const impersonateMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("POST", `/api/auth/impersonate/${userId}`);
+    },
+    onSuccess: () => {
+      queryClient.resetQueries();
+    },
+  });
+
+  const stopImpersonationMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/impersonate/exit");
+    },
+    onSuccess: () => {
+      queryClient.resetQueries();
+    },
+  });
+
+  // Re-checks the session once the server side has expired or revoked it
+  const expireSession = () => {
+    refetch();
+  };
+
   return {
     user,
     isLoading,
     isAuthenticated: !!user,
     login: loginMutation.mutateAsync,
+    verifyTwoFactor: verifyTwoFactorMutation.mutateAsync,
+    exchangeSsoTicket: exchangeSsoTicketMutation.mutateAsync,
     logout: logoutMutation.mutateAsync,
     forgotPassword: forgotPasswordMutation.mutateAsync,
+    resetPassword: resetPasswordMutation.mutateAsync,
+    changePassword: changePasswordMutation.mutateAsync,
+    keepAlive: keepAliveMutation.mutateAsync,
+    setupTwoFactor: setupTwoFactorMutation.mutateAsync,
+    enableTwoFactor: enableTwoFactorMutation.mutateAsync,
+    disableTwoFactor: disableTwoFactorMutation.mutateAsync,
+    impersonate: impersonateMutation.mutateAsync,
+    stopImpersonation: stopImpersonationMutation.mutateAsync,
+    refetchUser: refetch,
+    expireSession,
     isLoginLoading: loginMutation.isPending,
+    isVerifyTwoFactorLoading: verifyTwoFactorMutation.isPending,
+    isSsoLoading: exchangeSsoTicketMutation.isPending,
     isLogoutLoading: logoutMutation.isPending,
     isForgotPasswordLoading: forgotPasswordMutation.isPending,
+    isResetPasswordLoading: resetPasswordMutation.isPending,
+    isChangePasswordLoading: changePasswordMutation.isPending,
+    isKeepAliveLoading: keepAliveMutation.isPending,
+    isSetupTwoFactorLoading: setupTwoFactorMutation.isPending,
+    isEnableTwoFactorLoading: enableTwoFactorMutation.isPending,
+    isDisableTwoFactorLoading: disableTwoFactorMutation.isPending,
+    isImpersonateLoading: impersonateMutation.isPending,
+    isStopImpersonationLoading: stopImpersonationMutation.isPending,
     loginError: loginMutation.error,
     forgotPasswordError: forgotPasswordMutation.error,
+    changePasswordError: changePasswordMutation.error,
   };
 }
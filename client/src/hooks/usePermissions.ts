@@ -0,0 +1,13 @@
+import type { PermissionAction, PermissionModule } from "@shared/schema";
+import { useAuth } from "./useAuth";
+
+// Reads the effective permissions sent by the server, so the UI follows the same matrix as the API
+export function usePermissions() {
+  const { user } = useAuth();
+  const permissions = user?.permissions ?? [];
+
+  const can = (module: PermissionModule, action: PermissionAction) =>
+    permissions.includes(`${module}:${action}`);
+
+  return { permissions, can };
+}
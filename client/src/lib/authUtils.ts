@@ -2,6 +2,14 @@ export function isUnauthorizedError(error: Error): boolean {
   return /^401: .*/.test(error.message);
 }
 
+export function isAccountLockedError(error: Error): boolean {
+  return /^423: .*/.test(error.message);
+}
+
+export function isRateLimitedError(error: Error): boolean {
+  return /^429: .*/.test(error.message);
+}
+
 export function getInitials(firstName?: string, lastName?: string): string {
   if (!firstName && !lastName) return "??";
   
@@ -29,23 +37,3 @@ export function getProfileLabel(profile: string): string {
   
   return profileLabels[profile] || profile;
 }
-
-export function hasPermission(userProfile: string, requiredProfiles: string[]): boolean {
-  return requiredProfiles.includes(userProfile);
-}
-
-export function canManageUsers(userProfile: string): boolean {
-  return hasPermission(userProfile, ["ADMINISTRATOR", "MANAGER"]);
-}
-
-export function canDeleteUsers(userProfile: string): boolean {
-  return hasPermission(userProfile, ["ADMINISTRATOR"]);
-}
-
-export function canManageWorkGroups(userProfile: string): boolean {
-  return hasPermission(userProfile, ["ADMINISTRATOR", "MANAGER"]);
-}
-
-export function canDeleteWorkGroups(userProfile: string): boolean {
-  return hasPermission(userProfile, ["ADMINISTRATOR"]);
-}
@@ -0,0 +1,80 @@
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+}
+
+export interface PasswordRequirement {
+  label: string;
+  met: boolean;
+}
+
+const VIOLATION_MESSAGES: Record<string, string> = {
+  MIN_LENGTH: "A senha é muito curta.",
+  UPPERCASE: "A senha deve conter uma letra maiúscula.",
+  LOWERCASE: "A senha deve conter uma letra minúscula.",
+  DIGIT: "A senha deve conter um número.",
+  SYMBOL: "A senha deve conter um símbolo.",
+  COMMON_PASSWORD: "Esta senha é muito comum. Escolha outra.",
+  CONTAINS_EMAIL: "A senha não pode conter o seu email.",
+  REUSED: "Esta senha já foi usada recentemente. Escolha outra.",
+};
+
+export const STRENGTH_LABELS = ["Muito fraca", "Fraca", "Razoável", "Boa", "Forte"];
+
+export function getPasswordRequirements(password: string, policy: PasswordPolicy): PasswordRequirement[] {
+  const requirements: PasswordRequirement[] = [
+    { label: `Pelo menos ${policy.minLength} caracteres`, met: password.length >= policy.minLength },
+  ];
+
+  if (policy.requireUppercase) {
+    requirements.push({ label: "Uma letra maiúscula", met: /[A-Z]/.test(password) });
+  }
+  if (policy.requireLowercase) {
+    requirements.push({ label: "Uma letra minúscula", met: /[a-z]/.test(password) });
+  }
+  if (policy.requireDigit) {
+    requirements.push({ label: "Um número", met: /[0-9]/.test(password) });
+  }
+  if (policy.requireSymbol) {
+    requirements.push({ label: "Um símbolo", met: /[^A-Za-z0-9]/.test(password) });
+  }
+
+  return requirements;
+}
+
+// Rough 0-4 score based on length and character variety
+export function getPasswordStrength(password: string): number {
+  if (!password) return 0;
+
+  const classes = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^A-Za-z0-9]/].filter((regex) => regex.test(password)).length;
+  let score = 0;
+
+  if (password.length >= 8) score++;
+  if (password.length >= 12) score++;
+  if (classes >= 3) score++;
+  if (classes === 4 || password.length >= 16) score++;
+
+  // Repeated or sequential runs make a password much easier to guess
+  if (/(.)\1{2,}/.test(password) || /(012|123|234|345|456|567|678|789|abc|bcd|cde)/i.test(password)) {
+    score--;
+  }
+
+  return Math.max(0, Math.min(4, score));
+}
+
+// Turns the server's policy violations into a user-facing message
+export function getPasswordPolicyErrorMessage(error: Error): string | null {
+  const match = error.message.match(/^400: ([\s\S]*)$/);
+  if (!match) return null;
+
+  try {
+    const { violations } = JSON.parse(match[1]);
+    if (!Array.isArray(violations) || violations.length === 0) return null;
+    return violations.map((violation: string) => VIOLATION_MESSAGES[violation] || violation).join(" ");
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,31 @@
+export const MODULE_LABELS: Record<string, string> = {
+  dashboard: "Dashboard",
+  users: "Usuários",
+  "user-credentials": "Credenciais de usuários",
+  "user-sessions": "Sessões de usuários",
+  impersonation: "Acesso como outro usuário",
+  "work-groups": "Grupos de trabalho",
+  entities: "Entidades",
+  "sensitive-data": "Dados sensíveis",
+  contracts: "Contratos",
+  processes: "Processos",
+  "api-keys": "Chaves de API",
+  permissions: "Permissões",
+  delegations: "Delegações",
+};
+
+export const ACTION_LABELS: Record<string, string> = {
+  VIEW: "Visualizar",
+  CREATE: "Criar",
+  EDIT: "Editar",
+  DELETE: "Excluir",
+  IMPORT: "Importar",
+  EXPORT: "Exportar",
+  APPROVE: "Aprovar",
+  REVEAL: "Revelar",
+};
+
+export function getPermissionLabel(permission: string): string {
+  const [module, action] = permission.split(":");
+  return `${MODULE_LABELS[module] || module} - ${ACTION_LABELS[action] || action}`;
+}
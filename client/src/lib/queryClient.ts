@@ -1,5 +1,95 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// The server expires sessions after a period without API calls, so track when we last made one.
+// The time is shared through localStorage, since a call from any tab keeps the session alive
+const LAST_API_ACTIVITY_KEY = "mec_last_api_activity";
+let lastApiActivity = Date.now();
+
+export function recordApiActivity() {
+  lastApiActivity = Date.now();
+  localStorage.setItem(LAST_API_ACTIVITY_KEY, String(lastApiActivity));
+}
+
+export function getLastApiActivity(): number {
+  const sharedActivity = Number(localStorage.getItem(LAST_API_ACTIVITY_KEY)) || 0;
+  return Math.max(lastApiActivity, sharedActivity);
+}
+
+// The auth tokens live in httpOnly cookies; this companion cookie is readable and
+// must be echoed back on state-changing requests
+function getCsrfToken(): string | undefined {
+  return document.cookie
+    .split("; ")
+    .find((cookie) => cookie.startsWith("mec_csrf="))
+    ?.split("=")[1];
+}
+
+export function hasSessionCookie(): boolean {
+  return !!getCsrfToken();
+}
+
+// A 401 from these endpoints means bad credentials rather than an expired access token
+const NO_REFRESH_URLS = /^\/api\/auth\/(login|sso\/exchange|refresh|logout)/;
+
+let refreshPromise: Promise<boolean> | null = null;
+
+// Concurrent requests that hit a 401 share a single refresh call, since the
+// server revokes the whole session when a refresh token is presented twice
+function refreshSession(): Promise<boolean> {
+  if (!refreshPromise) {
+    const sendRefresh = () =>
+      fetch("/api/auth/refresh", {
+        method: "POST",
+        headers: { "X-CSRF-Token": getCsrfToken() || "" },
+        credentials: "include",
+      });
+
+    // Tabs share the cookies, so they refresh one at a time and each sends the token the previous one received
+    refreshPromise = (navigator.locks ? navigator.locks.request("mec-session-refresh", sendRefresh) : sendRefresh())
+      .then((res) => res.ok)
+      .catch(() => false)
+      .then((refreshed) => {
+        if (!refreshed) {
+          // The session cannot be renewed, so fall back to the login screen
+          queryClient.setQueryData(["/api/auth/me"], null);
+        }
+        return refreshed;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+
+  return refreshPromise;
+}
+
+// Sends a request with the session cookies, renewing the access token once if it has expired
+export async function fetchWithSession(
+  url: string,
+  init: Omit<RequestInit, "headers"> & { headers?: Record<string, string> } = {},
+): Promise<Response> {
+  const send = () => {
+    const headers: Record<string, string> = { ...init.headers };
+
+    const csrfToken = getCsrfToken();
+    if (csrfToken) {
+      headers["X-CSRF-Token"] = csrfToken;
+      recordApiActivity();
+    }
+
+    return fetch(url, { ...init, headers, credentials: "include" });
+  };
+
+  const res = await send();
+
+  if (res.status !== 401 || !hasSessionCookie() || NO_REFRESH_URLS.test(url)) {
+    return res;
+  }
+
+  // The refresh rotates the CSRF cookie, so the retry rebuilds its headers
+  return (await refreshSession()) ? send() : res;
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -18,17 +108,10 @@ export async function apiRequest(
     headers["Content-Type"] = "application/json";
   }
   
-  // Add Authorization header if access token exists
-  const accessToken = localStorage.getItem("accessToken");
-  if (accessToken) {
-    headers["Authorization"] = `Bearer ${accessToken}`;
-  }
-
-  const res = await fetch(url, {
+  const res = await fetchWithSession(url, {
     method,
     headers,
     body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
   });
 
   await throwIfResNotOk(res);
@@ -41,18 +124,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const headers: Record<string, string> = {};
-    
-    // Add Authorization header if access token exists
-    const accessToken = localStorage.getItem("accessToken");
-    if (accessToken) {
-      headers["Authorization"] = `Bearer ${accessToken}`;
-    }
-
-    const res = await fetch(queryKey[0] as string, {
-      headers,
-      credentials: "include",
-    });
+    const res = await fetchWithSession(queryKey[0] as string);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
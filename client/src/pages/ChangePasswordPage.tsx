@@ -0,0 +1,161 @@
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { KeyRound, Loader2, LogOut } from "lucide-react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import PasswordStrengthMeter from "@/components/PasswordStrengthMeter";
+import { getPasswordPolicyErrorMessage } from "@/lib/passwordPolicy";
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Senha atual é obrigatória"),
+  newPassword: z.string().min(1, "Nova senha é obrigatória"),
+  confirmPassword: z.string().min(1, "Confirme a nova senha"),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "As senhas não coincidem",
+  path: ["confirmPassword"],
+});
+
+type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
+
+export default function ChangePasswordPage() {
+  const { user, changePassword, isChangePasswordLoading, logout, isLogoutLoading } = useAuth();
+  const { toast } = useToast();
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+    reset,
+  } = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordSchema),
+  });
+
+  const onSubmit = async (data: ChangePasswordFormData) => {
+    try {
+      await changePassword({
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      });
+      toast({
+        title: "Senha alterada",
+        description: "Sua senha foi alterada com sucesso.",
+      });
+      reset();
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description:
+          getPasswordPolicyErrorMessage(error as Error) ||
+          "Não foi possível alterar a senha. Verifique a senha atual.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 px-4">
+      <div className="w-full max-w-md">
+        <Card className="shadow-xl animate-slide-in">
+          <CardHeader className="text-center pb-2">
+            <div className="flex flex-col items-center mb-2">
+              <div className="w-12 h-12 bg-primary-100 rounded-lg flex items-center justify-center">
+                <KeyRound className="w-6 h-6 text-primary-600" />
+              </div>
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900">Alterar Senha</h1>
+            <p className="text-gray-600 mt-1">
+              {user?.firstName ? `Olá, ${user.firstName}. ` : ""}
+              {user?.passwordExpired ? "Sua senha expirou. " : ""}
+              Para continuar, defina uma nova senha.
+            </p>
+          </CardHeader>
+
+          <CardContent className="pt-6">
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="currentPassword">Senha atual</Label>
+                <Input
+                  id="currentPassword"
+                  type="password"
+                  placeholder="••••••••"
+                  {...register("currentPassword")}
+                  className={errors.currentPassword ? "border-destructive" : ""}
+                />
+                {errors.currentPassword && (
+                  <p className="text-sm text-destructive">
+                    {errors.currentPassword.message}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="newPassword">Nova senha</Label>
+                <Input
+                  id="newPassword"
+                  type="password"
+                  placeholder="••••••••"
+                  {...register("newPassword")}
+                  className={errors.newPassword ? "border-destructive" : ""}
+                />
+                {errors.newPassword && (
+                  <p className="text-sm text-destructive">
+                    {errors.newPassword.message}
+                  </p>
+                )}
+                <PasswordStrengthMeter password={watch("newPassword") || ""} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirmar nova senha</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  placeholder="••••••••"
+                  {...register("confirmPassword")}
+                  className={errors.confirmPassword ? "border-destructive" : ""}
+                />
+                {errors.confirmPassword && (
+                  <p className="text-sm text-destructive">
+                    {errors.confirmPassword.message}
+                  </p>
+                )}
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isChangePasswordLoading}
+              >
+                {isChangePasswordLoading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Alterando...
+                  </>
+                ) : (
+                  "Alterar senha"
+                )}
+              </Button>
+
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => logout()}
+                disabled={isLogoutLoading}
+              >
+                <LogOut className="w-4 h-4 mr-2" />
+                {isLogoutLoading ? "Saindo..." : "Sair"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import { Loader2, X } from "lucide-react";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { isRateLimitedError } from "@/lib/authUtils";
 
 const forgotPasswordSchema = z.object({
   email: z.string().email("Email inválido"),
@@ -51,7 +52,9 @@ export default function ForgotPasswordModal({ open, onOpenChange }: ForgotPasswo
     } catch (error) {
       toast({
         title: "Erro",
-        description: "Não foi possível enviar o email de recuperação.",
+        description: isRateLimitedError(error as Error)
+          ? "Muitas solicitações. Aguarde alguns minutos e tente novamente."
+          : "Não foi possível enviar o email de recuperação.",
         variant: "destructive",
       });
     }
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
@@ -6,11 +7,13 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Shield, Loader2 } from "lucide-react";
+import { Shield, Loader2, LogIn } from "lucide-react";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import ForgotPasswordModal from "@/pages/ForgotPassword";
+import TwoFactorLoginForm from "@/components/TwoFactorLoginForm";
+import { isAccountLockedError, isRateLimitedError } from "@/lib/authUtils";
 import logoMeC from "@assets/MeC.jpg";
 
 const loginSchema = z.object({
@@ -20,11 +23,71 @@ const loginSchema = z.object({
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
+function getLoginErrorMessage(error: Error): string {
+  if (isAccountLockedError(error)) {
+    return "Conta bloqueada temporariamente por excesso de tentativas. Tente novamente mais tarde.";
+  }
+  if (isRateLimitedError(error)) {
+    return "Muitas tentativas de login. Aguarde alguns minutos e tente novamente.";
+  }
+  return "Email ou senha incorretos. Tente novamente.";
+}
+
+const SSO_ERROR_MESSAGES: Record<string, string> = {
+  denied: "O login via SSO foi cancelado.",
+  no_account: "Não há uma conta no MeC ONE associada ao seu usuário corporativo. Procure o administrador.",
+  inactive: "Sua conta está inativa. Procure o administrador.",
+  failed: "Não foi possível concluir o login via SSO. Tente novamente.",
+};
+
 export default function LoginPage() {
-  const { login, isLoginLoading, loginError } = useAuth();
+  const { login, isLoginLoading, loginError, exchangeSsoTicket, isSsoLoading } = useAuth();
   const { toast } = useToast();
   const [rememberMe, setRememberMe] = useState(false);
   const [showForgotPassword, setShowForgotPassword] = useState(false);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const ssoHandled = useRef(false);
+
+  const { data: ssoConfig } = useQuery<{ enabled: boolean }>({
+    queryKey: ["/api/auth/sso/config"],
+  });
+
+  // The SSO callback redirects back here with either a login ticket or an error code
+  useEffect(() => {
+    if (ssoHandled.current) return;
+    ssoHandled.current = true;
+
+    const ssoError = new URLSearchParams(window.location.search).get("sso_error");
+    const ssoTicket = new URLSearchParams(window.location.hash.slice(1)).get("sso_ticket");
+
+    if (!ssoError && !ssoTicket) return;
+    window.history.replaceState(null, "", window.location.pathname);
+
+    if (ssoError) {
+      toast({
+        title: "Erro no login",
+        description: SSO_ERROR_MESSAGES[ssoError] || SSO_ERROR_MESSAGES.failed,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    exchangeSsoTicket(ssoTicket!)
+      .then((response) => {
+        if ("twoFactorRequired" in response) {
+          setChallengeToken(response.challengeToken);
+        }
+      })
+      .catch((error) => {
+        toast({
+          title: "Erro no login",
+          description: isAccountLockedError(error)
+            ? getLoginErrorMessage(error)
+            : SSO_ERROR_MESSAGES.failed,
+          variant: "destructive",
+        });
+      });
+  }, []);
 
   const {
     register,
@@ -36,7 +99,11 @@ export default function LoginPage() {
 
   const onSubmit = async (data: LoginFormData) => {
     try {
-      await login(data);
+      const response = await login(data);
+      if ("twoFactorRequired" in response) {
+        setChallengeToken(response.challengeToken);
+        return;
+      }
       toast({
         title: "Login realizado",
         description: "Bem-vindo ao MeC ONE!",
@@ -44,7 +111,7 @@ export default function LoginPage() {
     } catch (error) {
       toast({
         title: "Erro no login",
-        description: "Email ou senha incorretos.",
+        description: getLoginErrorMessage(error as Error),
         variant: "destructive",
       });
     }
@@ -67,83 +134,107 @@ export default function LoginPage() {
           </CardHeader>
 
           <CardContent className="pt-6">
-            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-              <div className="space-y-2">
-                <Label htmlFor="email">Email</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="seuemail@exemplo.com"
-                  {...register("email")}
-                  className={errors.email ? "border-destructive" : ""}
-                />
-                {errors.email && (
-                  <p className="text-sm text-destructive">
-                    {errors.email.message}
-                  </p>
-                )}
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="password">Senha</Label>
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="••••••••"
-                  {...register("password")}
-                  className={errors.password ? "border-destructive" : ""}
-                />
-                {errors.password && (
-                  <p className="text-sm text-destructive">
-                    {errors.password.message}
-                  </p>
-                )}
-              </div>
-
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="remember"
-                    checked={rememberMe}
-                    onCheckedChange={(checked) =>
-                      setRememberMe(checked as boolean)
-                    }
+            {challengeToken ? (
+              <TwoFactorLoginForm
+                challengeToken={challengeToken}
+                onCancel={() => setChallengeToken(null)}
+              />
+            ) : (
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="seuemail@exemplo.com"
+                    {...register("email")}
+                    className={errors.email ? "border-destructive" : ""}
+                  />
+                  {errors.email && (
+                    <p className="text-sm text-destructive">
+                      {errors.email.message}
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="password">Senha</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="••••••••"
+                    {...register("password")}
+                    className={errors.password ? "border-destructive" : ""}
                   />
-                  <Label htmlFor="remember" className="text-sm text-gray-600">
-                    Lembrar-me
-                  </Label>
+                  {errors.password && (
+                    <p className="text-sm text-destructive">
+                      {errors.password.message}
+                    </p>
+                  )}
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="remember"
+                      checked={rememberMe}
+                      onCheckedChange={(checked) =>
+                        setRememberMe(checked as boolean)
+                      }
+                    />
+                    <Label htmlFor="remember" className="text-sm text-gray-600">
+                      Lembrar-me
+                    </Label>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="link"
+                    className="text-sm text-primary-600 hover:text-primary-700 p-0"
+                    onClick={() => setShowForgotPassword(true)}
+                  >
+                    Esqueci minha senha
+                  </Button>
                 </div>
+
+                {loginError && (
+                  <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md">
+                    {getLoginErrorMessage(loginError)}
+                  </div>
+                )}
+
                 <Button
-                  type="button"
-                  variant="link"
-                  className="text-sm text-primary-600 hover:text-primary-700 p-0"
-                  onClick={() => setShowForgotPassword(true)}
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoginLoading}
                 >
-                  Esqueci minha senha
+                  {isLoginLoading ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Entrando...
+                    </>
+                  ) : (
+                    "Entrar"
+                  )}
                 </Button>
-              </div>
 
-              {loginError && (
-                <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md">
-                  Email ou senha incorretos. Tente novamente.
-                </div>
-              )}
-
-              <Button
-                type="submit"
-                className="w-full"
-                disabled={isLoginLoading}
-              >
-                {isLoginLoading ? (
-                  <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Entrando...
-                  </>
-                ) : (
-                  "Entrar"
+                {ssoConfig?.enabled && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full"
+                    disabled={isSsoLoading}
+                    onClick={() => { window.location.href = "/api/auth/sso/login"; }}
+                  >
+                    {isSsoLoading ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <LogIn className="w-4 h-4 mr-2" />
+                    )}
+                    Entrar com SSO
+                  </Button>
                 )}
-              </Button>
-            </form>
+              </form>
+            )}
           </CardContent>
         </Card>
 
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useLocation, useParams } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { KeyRound, Loader2 } from "lucide-react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import PasswordStrengthMeter from "@/components/PasswordStrengthMeter";
+import { getPasswordPolicyErrorMessage } from "@/lib/passwordPolicy";
+
+const resetPasswordSchema = z.object({
+  newPassword: z.string().min(1, "Nova senha é obrigatória"),
+  confirmPassword: z.string().min(1, "Confirme a nova senha"),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "As senhas não coincidem",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+export default function ResetPasswordPage() {
+  const { token } = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const { resetPassword, isResetPasswordLoading } = useAuth();
+  const { toast } = useToast();
+  const [isInvalidLink, setIsInvalidLink] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+  });
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    try {
+      await resetPassword({ token, newPassword: data.newPassword });
+      toast({
+        title: "Senha redefinida",
+        description: "Sua senha foi redefinida. Faça login com a nova senha.",
+      });
+      setLocation("/");
+    } catch (error) {
+      const policyErrorMessage = getPasswordPolicyErrorMessage(error as Error);
+      if (policyErrorMessage) {
+        toast({
+          title: "Senha não permitida",
+          description: policyErrorMessage,
+          variant: "destructive",
+        });
+        return;
+      }
+      setIsInvalidLink(true);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 px-4">
+      <div className="w-full max-w-md">
+        <Card className="shadow-xl animate-slide-in">
+          <CardHeader className="text-center pb-2">
+            <div className="flex flex-col items-center mb-2">
+              <div className="w-12 h-12 bg-primary-100 rounded-lg flex items-center justify-center">
+                <KeyRound className="w-6 h-6 text-primary-600" />
+              </div>
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900">Redefinir Senha</h1>
+            <p className="text-gray-600 mt-1">Escolha uma nova senha para sua conta</p>
+          </CardHeader>
+
+          <CardContent className="pt-6">
+            {isInvalidLink ? (
+              <div className="space-y-6">
+                <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md">
+                  Link de recuperação inválido ou expirado. Solicite um novo link na tela de login.
+                </div>
+                <Button className="w-full" onClick={() => setLocation("/")}>
+                  Voltar ao login
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="newPassword">Nova senha</Label>
+                  <Input
+                    id="newPassword"
+                    type="password"
+                    placeholder="••••••••"
+                    {...register("newPassword")}
+                    className={errors.newPassword ? "border-destructive" : ""}
+                  />
+                  {errors.newPassword && (
+                    <p className="text-sm text-destructive">
+                      {errors.newPassword.message}
+                    </p>
+                  )}
+                  <PasswordStrengthMeter password={watch("newPassword") || ""} />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword">Confirmar nova senha</Label>
+                  <Input
+                    id="confirmPassword"
+                    type="password"
+                    placeholder="••••••••"
+                    {...register("confirmPassword")}
+                    className={errors.confirmPassword ? "border-destructive" : ""}
+                  />
+                  {errors.confirmPassword && (
+                    <p className="text-sm text-destructive">
+                      {errors.confirmPassword.message}
+                    </p>
+                  )}
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isResetPasswordLoading}
+                >
+                  {isResetPasswordLoading ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Redefinindo...
+                    </>
+                  ) : (
+                    "Redefinir senha"
+                  )}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { ShieldCheck, LogOut } from "lucide-react";
+import TwoFactorSetup from "@/components/TwoFactorSetup";
+
+export default function TwoFactorSetupPage() {
+  const { user, logout, isLogoutLoading, refetchUser } = useAuth();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 px-4">
+      <div className="w-full max-w-md">
+        <Card className="shadow-xl animate-slide-in">
+          <CardHeader className="text-center pb-2">
+            <div className="flex flex-col items-center mb-2">
+              <div className="w-12 h-12 bg-primary-100 rounded-lg flex items-center justify-center">
+                <ShieldCheck className="w-6 h-6 text-primary-600" />
+              </div>
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900">Verificação em Duas Etapas</h1>
+            <p className="text-gray-600 mt-1">
+              {user?.firstName ? `Olá, ${user.firstName}. ` : ""}
+              Seu perfil exige a verificação em duas etapas. Configure-a para continuar.
+            </p>
+          </CardHeader>
+
+          <CardContent className="pt-6 space-y-4">
+            <TwoFactorSetup onComplete={() => refetchUser()} />
+
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full"
+              onClick={() => logout()}
+              disabled={isLogoutLoading}
+            >
+              <LogOut className="w-4 h-4 mr-2" />
+              Sair
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { ShieldAlert } from "lucide-react";
+
+export default function AccessDenied() {
+  return (
+    <div className="w-full flex items-center justify-center py-12">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6">
+          <div className="flex mb-4 gap-2">
+            <ShieldAlert className="h-8 w-8 text-red-500" />
+            <h1 className="text-2xl font-bold text-gray-900">Acesso negado</h1>
+          </div>
+
+          <p className="mt-4 text-sm text-gray-600">
+            Seu perfil não tem permissão para acessar esta página. Fale com o administrador do sistema se precisar deste acesso.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
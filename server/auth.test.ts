@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getBlockingAccountGate } from './auth';
+
+// The gate is pure, but importing auth.ts would otherwise open the database connection
+vi.mock('./storage', () => ({ storage: {} }));
+
+describe('getBlockingAccountGate', () => {
+  const nothingPending = { passwordChange: false, twoFactorSetup: false };
+  const passwordPending = { passwordChange: true, twoFactorSetup: false };
+  const twoFactorPending = { passwordChange: false, twoFactorSetup: true };
+  const bothPending = { passwordChange: true, twoFactorSetup: true };
+
+  it('lets every path through when nothing is pending', () => {
+    expect(getBlockingAccountGate('/api/entities', nothingPending)).toBeNull();
+  });
+
+  it('only allows the password change routes while the password must change', () => {
+    expect(getBlockingAccountGate('/api/entities', passwordPending)).toBe('PASSWORD_CHANGE');
+    expect(getBlockingAccountGate('/api/auth/2fa/setup', passwordPending)).toBe('PASSWORD_CHANGE');
+    expect(getBlockingAccountGate('/api/auth/change-password', passwordPending)).toBeNull();
+  });
+
+  it('only allows the enrollment routes while two-factor setup is pending', () => {
+    expect(getBlockingAccountGate('/api/entities', twoFactorPending)).toBe('TWO_FACTOR_SETUP');
+    expect(getBlockingAccountGate('/api/auth/change-password', twoFactorPending)).toBe('TWO_FACTOR_SETUP');
+    expect(getBlockingAccountGate('/api/auth/2fa/setup', twoFactorPending)).toBeNull();
+    expect(getBlockingAccountGate('/api/auth/2fa/enable', twoFactorPending)).toBeNull();
+  });
+
+  it('asks for the password first when both are pending', () => {
+    expect(getBlockingAccountGate('/api/auth/change-password', bothPending)).toBeNull();
+    expect(getBlockingAccountGate('/api/auth/2fa/setup', bothPending)).toBe('PASSWORD_CHANGE');
+    expect(getBlockingAccountGate('/api/entities', bothPending)).toBe('PASSWORD_CHANGE');
+  });
+
+  it('keeps the shared session routes reachable under either gate', () => {
+    for (const path of ['/api/auth/me', '/api/auth/keep-alive', '/api/auth/logout']) {
+      expect(getBlockingAccountGate(path, passwordPending)).toBeNull();
+      expect(getBlockingAccountGate(path, twoFactorPending)).toBeNull();
+    }
+  });
+});
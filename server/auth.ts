@@ -1,28 +1,110 @@
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import { type Request, type Response, type NextFunction } from 'express';
-import { storage } from './storage';
+import { storage, type ScopedRecordType } from './storage';
+import { getConfigNumber, getConfigValue } from './systemConfig';
+import { isPasswordExpired } from './passwordPolicy';
+import { hasPermission, getAccessScope } from './permissions';
+import type { SsoFlowState } from './sso';
+import {
+  userProfiles,
+  apiKeyScopes,
+  type User,
+  type UserSession,
+  type PermissionModule,
+  type PermissionAction,
+} from '@shared/schema';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'your-refresh-secret-key-change-in-production';
 
+export const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000; // 15 minutes
+export const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+export const PASSWORD_RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+export const SSO_LOGIN_TICKET_TTL_MS = 60 * 1000; // 1 minute
+// Tabs refreshing at the same moment all present the token only one of them can rotate
+const REFRESH_TOKEN_REUSE_GRACE_MS = 30 * 1000; // 30 seconds
+
+// Routes a user flagged with mustChangePassword can still reach
+const PASSWORD_CHANGE_ALLOWED_PATHS = [
+  '/api/auth/change-password',
+  '/api/auth/me',
+  '/api/auth/keep-alive',
+  '/api/auth/logout',
+];
+
+// Routes a user whose profile requires two-factor can reach before enrolling
+const TWO_FACTOR_SETUP_ALLOWED_PATHS = [
+  '/api/auth/2fa/setup',
+  '/api/auth/2fa/enable',
+  '/api/auth/me',
+  '/api/auth/keep-alive',
+  '/api/auth/logout',
+];
+
+export type AccountGate = 'PASSWORD_CHANGE' | 'TWO_FACTOR_SETUP';
+
+// The pending step that blocks the path, if any. The password comes first, so two-factor
+// setup is only enforced once the user has a valid password and can reach the 2FA routes
+export function getBlockingAccountGate(
+  path: string,
+  pending: { passwordChange: boolean; twoFactorSetup: boolean },
+): AccountGate | null {
+  if (pending.passwordChange) {
+    return PASSWORD_CHANGE_ALLOWED_PATHS.includes(path) ? null : 'PASSWORD_CHANGE';
+  }
+  if (pending.twoFactorSetup) {
+    return TWO_FACTOR_SETUP_ALLOWED_PATHS.includes(path) ? null : 'TWO_FACTOR_SETUP';
+  }
+  return null;
+}
+
+// Browsers get the tokens as httpOnly cookies; API clients keep using the Authorization header
+export const ACCESS_TOKEN_COOKIE = 'mec_access';
+export const REFRESH_TOKEN_COOKIE = 'mec_refresh';
+// Readable by the client, which echoes it in the X-CSRF-Token header (double-submit)
+export const CSRF_COOKIE = 'mec_csrf';
+// The refresh token is only sent to the auth routes that consume it
+const REFRESH_TOKEN_COOKIE_PATH = '/api/auth';
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Credential and session management stays with the account owner during impersonation
+const IMPERSONATION_BLOCKED_PATHS = [
+  '/api/auth/change-password',
+  '/api/auth/2fa/',
+  '/api/auth/sessions',
+];
+
+const TWO_FACTOR_CHALLENGE_TTL = '5m';
+const SSO_FLOW_STATE_TTL = '10m';
+
 export interface AuthRequest extends Request {
   user?: {
     id: string;
     email: string;
     profile: string;
+    // Not set for API key requests
+    sessionId?: string;
+    // The administrator acting as this user; id, email and profile are the impersonated user's
+    impersonatorId?: string;
   };
+  apiKeyId?: string;
 }
 
 export interface TokenPayload {
   userId: string;
   email: string;
   profile: string;
+  // Session family the token was issued for
+  sessionId: string;
+  impersonatorId?: string;
 }
 
 export function generateTokens(payload: TokenPayload) {
   const accessToken = jwt.sign(payload, JWT_SECRET, { expiresIn: '15m' });
-  const refreshToken = jwt.sign(payload, JWT_REFRESH_SECRET, { expiresIn: '7d' });
+  // A unique jwtid keeps refresh tokens issued within the same second distinct
+  const refreshToken = jwt.sign(payload, JWT_REFRESH_SECRET, { expiresIn: '7d', jwtid: crypto.randomUUID() });
   
   return { accessToken, refreshToken };
 }
@@ -43,6 +125,76 @@ export function verifyRefreshToken(token: string): TokenPayload | null {
   }
 }
 
+export function readCookie(req: Request, name: string): string | undefined {
+  const cookie = req.get('Cookie')
+    ?.split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${name}=`));
+  return cookie ? decodeURIComponent(cookie.slice(name.length + 1)) : undefined;
+}
+
+export function setAuthCookies(req: Request, res: Response, tokens: { accessToken: string; refreshToken: string }) {
+  const secure = req.secure;
+
+  res.cookie(ACCESS_TOKEN_COOKIE, tokens.accessToken, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure,
+    path: '/',
+    maxAge: ACCESS_TOKEN_TTL_MS,
+  });
+  res.cookie(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure,
+    path: REFRESH_TOKEN_COOKIE_PATH,
+    maxAge: REFRESH_TOKEN_TTL_MS,
+  });
+  res.cookie(CSRF_COOKIE, crypto.randomBytes(32).toString('hex'), {
+    httpOnly: false,
+    sameSite: 'strict',
+    secure,
+    path: '/',
+    maxAge: REFRESH_TOKEN_TTL_MS,
+  });
+}
+
+export function clearAuthCookies(res: Response) {
+  res.clearCookie(ACCESS_TOKEN_COOKIE, { path: '/' });
+  res.clearCookie(REFRESH_TOKEN_COOKIE, { path: REFRESH_TOKEN_COOKIE_PATH });
+  res.clearCookie(CSRF_COOKIE, { path: '/' });
+}
+
+// Rejects state-changing requests that rely on the auth cookies without the matching CSRF header
+export function csrfProtection(req: Request, res: Response, next: NextFunction) {
+  if (SAFE_METHODS.includes(req.method)) {
+    return next();
+  }
+
+  // Credentials sent in headers cannot be attached by another site
+  if (req.headers.authorization || req.get('X-API-Key')) {
+    return next();
+  }
+
+  if (!readCookie(req, ACCESS_TOKEN_COOKIE) && !readCookie(req, REFRESH_TOKEN_COOKIE)) {
+    return next();
+  }
+
+  const cookieToken = readCookie(req, CSRF_COOKIE);
+  const headerToken = req.get('X-CSRF-Token');
+
+  if (
+    !cookieToken ||
+    !headerToken ||
+    cookieToken.length !== headerToken.length ||
+    !crypto.timingSafeEqual(Buffer.from(cookieToken), Buffer.from(headerToken))
+  ) {
+    return res.status(403).json({ message: 'Invalid CSRF token' });
+  }
+
+  next();
+}
+
 export async function hashPassword(password: string): Promise<string> {
   return bcrypt.hash(password, 12);
 }
@@ -51,19 +203,196 @@ export async function comparePassword(password: string, hash: string): Promise<b
   return bcrypt.compare(password, hash);
 }
 
-export function generateTemporaryPassword(): string {
-  return Math.random().toString(36).slice(-8);
+let dummyPasswordHash: Promise<string> | undefined;
+
+// Compared against when there is no account, so unknown emails take as long to answer as real ones
+export function getDummyPasswordHash(): Promise<string> {
+  dummyPasswordHash ??= hashPassword(crypto.randomBytes(32).toString('hex'));
+  return dummyPasswordHash;
+}
+
+// Recovery tokens are sent to the user in plain text and only their SHA-256 hash is stored
+export function generatePasswordResetToken(): { token: string; tokenHash: string } {
+  const token = crypto.randomBytes(32).toString('hex');
+  return { token, tokenHash: hashPasswordResetToken(token) };
+}
+
+export function hashPasswordResetToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// API keys are shown to the administrator once; only their SHA-256 hash is stored
+export function generateApiKey(): { key: string; keyPrefix: string; keyHash: string } {
+  const key = `mec_${crypto.randomBytes(32).toString('base64url')}`;
+  return { key, keyPrefix: key.slice(0, 12), keyHash: hashApiKey(key) };
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+// Maps a request to the scope it needs, e.g. GET /api/entities/:id -> "entities:read"
+function getRequiredApiKeyScope(req: Request): string | null {
+  const resource = req.path.match(/^\/api\/([^/]+)/)?.[1];
+  const action = req.method === 'GET' || req.method === 'HEAD' ? 'read' : 'write';
+  const scope = `${resource}:${action}`;
+  return (apiKeyScopes as readonly string[]).includes(scope) ? scope : null;
+}
+
+function normalizeIp(ip?: string): string | undefined {
+  return ip?.replace(/^::ffff:/, '');
+}
+
+async function authenticateApiKey(key: string, req: AuthRequest, res: Response, next: NextFunction) {
+  const apiKey = await storage.getApiKeyByHash(hashApiKey(key));
+
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt < new Date())) {
+    return res.status(401).json({ message: 'Invalid or expired API key' });
+  }
+
+  if (apiKey.allowedIps?.length && !apiKey.allowedIps.map(normalizeIp).includes(normalizeIp(req.ip))) {
+    return res.status(403).json({ message: 'API key not allowed from this address' });
+  }
+
+  // Session, password and two-factor endpoints are for interactive users only
+  const requiredScope = getRequiredApiKeyScope(req);
+  if (!requiredScope || !apiKey.scopes.includes(requiredScope as typeof apiKeyScopes[number])) {
+    return res.status(403).json({ message: 'API key does not have the required scope' });
+  }
+
+  // The key acts on behalf of its owner and never exceeds the owner's profile
+  const owner = await storage.getUser(apiKey.userId);
+
+  if (!owner || !owner.isActive) {
+    return res.status(401).json({ message: 'API key owner not found or inactive' });
+  }
+
+  req.user = {
+    id: owner.id,
+    email: owner.email,
+    profile: owner.profile,
+  };
+  req.apiKeyId = apiKey.id;
+
+  await storage.touchApiKey(apiKey.id, req.ip);
+
+  // Log API key activity
+  await storage.createAuditLog({
+    userId: owner.id,
+    apiKeyId: apiKey.id,
+    action: 'API_ACCESS',
+    table: 'api_keys',
+    recordId: apiKey.id,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+  });
+
+  next();
+}
+
+// Short-lived token proving the password step succeeded, exchanged for real tokens after the TOTP step
+export function generateTwoFactorChallengeToken(userId: string): string {
+  return jwt.sign({ userId, purpose: '2fa' }, JWT_SECRET, { expiresIn: TWO_FACTOR_CHALLENGE_TTL });
+}
+
+export function verifyTwoFactorChallengeToken(token: string): { userId: string } | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as { userId: string; purpose?: string };
+    return payload.purpose === '2fa' ? { userId: payload.userId } : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Signed so the state, nonce and PKCE verifier can round-trip through a cookie untampered
+export function signSsoFlowState(flowState: SsoFlowState): string {
+  return jwt.sign({ ...flowState, purpose: 'sso_flow' }, JWT_SECRET, { expiresIn: SSO_FLOW_STATE_TTL });
+}
+
+export function verifySsoFlowState(token: string): SsoFlowState | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as SsoFlowState & { purpose?: string };
+    if (payload.purpose !== 'sso_flow') {
+      return null;
+    }
+    return { state: payload.state, nonce: payload.nonce, codeVerifier: payload.codeVerifier };
+  } catch (error) {
+    return null;
+  }
+}
+
+// Handed to the client after the provider callback and exchanged for real tokens right away;
+// only its SHA-256 hash is stored, so it can be consumed once
+export function generateSsoLoginTicket(): { ticket: string; ticketHash: string } {
+  const ticket = crypto.randomBytes(32).toString('hex');
+  return { ticket, ticketHash: hashSsoLoginTicket(ticket) };
+}
+
+export function hashSsoLoginTicket(ticket: string): string {
+  return crypto.createHash('sha256').update(ticket).digest('hex');
+}
+
+export async function getTwoFactorRequiredProfiles(): Promise<string[]> {
+  const value = await getConfigValue('two_factor.required_profiles');
+  return value
+    .split(',')
+    .map(profile => profile.trim())
+    .filter(profile => (userProfiles as readonly string[]).includes(profile));
+}
+
+export async function isTwoFactorSetupRequired(user: User): Promise<boolean> {
+  if (user.twoFactorEnabled) return false;
+  return (await getTwoFactorRequiredProfiles()).includes(user.profile);
+}
+
+export async function getSessionIdleTimeoutMs(): Promise<number> {
+  return (await getConfigNumber('session.idle_timeout_minutes')) * 60 * 1000;
+}
+
+export function isSessionIdle(session: UserSession, idleTimeoutMs: number): boolean {
+  return Date.now() - session.lastUsed.getTime() > idleTimeoutMs;
+}
+
+// The predecessor of a rotation that just happened is a concurrent refresh, not a leaked token
+export function isRecentlyRotated(session: UserSession): boolean {
+  return !!session.rotatedAt && Date.now() - session.rotatedAt.getTime() < REFRESH_TOKEN_REUSE_GRACE_MS;
+}
+
+// Failed logins are answered progressively slower: 250ms, 500ms, 1s, ... up to 5s
+export function getLoginFailureDelayMs(failedAttempts: number): number {
+  if (failedAttempts <= 0) return 0;
+  return Math.min(250 * 2 ** (failedAttempts - 1), 5000);
+}
+
+export function isUserLocked(user: { lockedUntil: Date | null }): boolean {
+  return !!user.lockedUntil && user.lockedUntil > new Date();
+}
+
+// The administrator must still be active and hold the permission that allowed the impersonation
+export async function isImpersonatorAllowed(impersonatorId: string): Promise<boolean> {
+  const impersonator = await storage.getUser(impersonatorId);
+  return !!impersonator && impersonator.isActive && await hasPermission(impersonator, 'impersonation', 'CREATE');
+}
+
+// Audit entries always name the real actor, plus the account used when impersonating
+export function getAuditActor(req: AuthRequest) {
+  return {
+    userId: req.user!.impersonatorId ?? req.user!.id,
+    apiKeyId: req.apiKeyId,
+    impersonatedUserId: req.user!.impersonatorId ? req.user!.id : undefined,
+  };
 }
 
 export async function authenticate(req: AuthRequest, res: Response, next: NextFunction) {
   try {
-    const authHeader = req.headers.authorization;
-    
-    if (!authHeader) {
-      return res.status(401).json({ message: 'No authorization header provided' });
+    const apiKey = req.get('X-API-Key');
+
+    if (apiKey) {
+      return await authenticateApiKey(apiKey, req, res, next);
     }
 
-    const token = authHeader.split(' ')[1];
+    const authHeader = req.headers.authorization;
+    const token = authHeader ? authHeader.split(' ')[1] : readCookie(req, ACCESS_TOKEN_COOKIE);
     
     if (!token) {
       return res.status(401).json({ message: 'No token provided' });
@@ -71,10 +400,21 @@ export async function authenticate(req: AuthRequest, res: Response, next: NextFu
 
     const payload = verifyToken(token);
     
-    if (!payload) {
+    if (!payload || !payload.sessionId) {
       return res.status(401).json({ message: 'Invalid or expired token' });
     }
 
+    const session = await storage.getActiveSessionByFamily(payload.sessionId);
+
+    if (!session || session.expiresAt < new Date()) {
+      return res.status(401).json({ message: 'Session not found or expired' });
+    }
+
+    if (isSessionIdle(session, await getSessionIdleTimeoutMs())) {
+      await storage.deactivateSessionFamily(session.familyId);
+      return res.status(401).json({ message: 'Session expired due to inactivity' });
+    }
+
     // Verify user still exists and is active
     const user = await storage.getUser(payload.userId);
     
@@ -82,15 +422,44 @@ export async function authenticate(req: AuthRequest, res: Response, next: NextFu
       return res.status(401).json({ message: 'User not found or inactive' });
     }
 
+    if (payload.impersonatorId) {
+      if (!await isImpersonatorAllowed(payload.impersonatorId)) {
+        return res.status(401).json({ message: 'Impersonation is no longer allowed' });
+      }
+
+      if (IMPERSONATION_BLOCKED_PATHS.some(path => req.path.startsWith(path))) {
+        return res.status(403).json({ message: 'Not allowed while impersonating a user' });
+      }
+    } else {
+      // Block everything but the password change flow until the user sets a new password,
+      // then everything but the two-factor enrollment until the profile's requirement is met
+      const passwordChange = user.mustChangePassword || await isPasswordExpired(user);
+      const gate = getBlockingAccountGate(req.path, {
+        passwordChange,
+        twoFactorSetup: !passwordChange && await isTwoFactorSetupRequired(user),
+      });
+
+      if (gate === 'PASSWORD_CHANGE') {
+        return res.status(403).json({ message: 'Password change required' });
+      }
+      if (gate === 'TWO_FACTOR_SETUP') {
+        return res.status(403).json({ message: 'Two-factor authentication setup required' });
+      }
+    }
+
     req.user = {
       id: payload.userId,
       email: payload.email,
       profile: payload.profile,
+      sessionId: payload.sessionId,
+      impersonatorId: payload.impersonatorId,
     };
 
+    await storage.touchSession(session.id);
+
     // Log user activity
     await storage.createAuditLog({
-      userId: payload.userId,
+      ...getAuditActor(req),
       action: 'API_ACCESS',
       table: 'users',
       recordId: payload.userId,
@@ -105,14 +474,46 @@ export async function authenticate(req: AuthRequest, res: Response, next: NextFu
   }
 }
 
-export function authorize(profiles: string[]) {
-  return (req: AuthRequest, res: Response, next: NextFunction) => {
+// Checks the profile -> permission matrix, e.g. requirePermission('entities', 'EDIT')
+export function requirePermission(module: PermissionModule, action: PermissionAction) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+      if (!await hasPermission(req.user, module, action)) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+    } catch (error) {
+      console.error('Authorization error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+
+    next();
+  };
+}
+
+const OUT_OF_SCOPE_MESSAGES: Record<ScopedRecordType, string> = {
+  'users': 'User not found',
+  'work-groups': 'Work group not found',
+};
+
+// Records outside the caller's work groups answer 404, so their existence is not revealed
+export function requireRecordInScope(recordType: ScopedRecordType, param = 'id') {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ message: 'Not authenticated' });
     }
 
-    if (!profiles.includes(req.user.profile)) {
-      return res.status(403).json({ message: 'Insufficient permissions' });
+    try {
+      const scope = await getAccessScope(req.user);
+      if (!await storage.isRecordInScope(recordType, req.params[param], scope)) {
+        return res.status(404).json({ message: OUT_OF_SCOPE_MESSAGES[recordType] });
+      }
+    } catch (error) {
+      console.error('Authorization error:', error);
+      return res.status(500).json({ message: 'Internal server error' });
     }
 
     next();
@@ -0,0 +1,142 @@
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const APP_NAME = 'Mec One';
+
+// Labels for the user fields mentioned in account change alerts
+export const ACCOUNT_CHANGE_LABELS: Record<string, string> = {
+  firstName: 'Nome',
+  lastName: 'Sobrenome',
+  email: 'E-mail',
+  profile: 'Perfil de acesso',
+  isActive: 'Situação da conta',
+  workGroupIds: 'Grupos de trabalho',
+  password: 'Senha',
+  twoFactor: 'Verificação em duas etapas',
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderHtml(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,sans-serif;color:#111827;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px;">
+      <h1 style="font-size:20px;margin:0 0 16px;">${escapeHtml(title)}</h1>
+      ${body}
+      <p style="font-size:12px;color:#6b7280;margin-top:32px;">
+        Esta é uma mensagem automática do ${APP_NAME}. Não responda a este e-mail.
+      </p>
+    </div>
+  </body>
+</html>`;
+}
+
+function renderButton(url: string, label: string): string {
+  return `<p style="margin:24px 0;">
+        <a href="${escapeHtml(url)}" style="background:#2563eb;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;">${escapeHtml(label)}</a>
+      </p>`;
+}
+
+export function welcomeEmail(params: {
+  firstName: string;
+  email: string;
+  temporaryPassword: string;
+  loginUrl: string;
+}): EmailContent {
+  const subject = `Bem-vindo ao ${APP_NAME}`;
+
+  const text = [
+    `Olá, ${params.firstName}.`,
+    '',
+    `Sua conta no ${APP_NAME} foi criada. Use as credenciais abaixo para o primeiro acesso:`,
+    '',
+    `E-mail: ${params.email}`,
+    `Senha temporária: ${params.temporaryPassword}`,
+    '',
+    `Acesse: ${params.loginUrl}`,
+    '',
+    'Por segurança, você deverá definir uma nova senha no primeiro login.',
+  ].join('\n');
+
+  const html = renderHtml(subject, `
+      <p>Olá, ${escapeHtml(params.firstName)}.</p>
+      <p>Sua conta no ${APP_NAME} foi criada. Use as credenciais abaixo para o primeiro acesso:</p>
+      <p>
+        E-mail: <strong>${escapeHtml(params.email)}</strong><br />
+        Senha temporária: <code style="font-size:16px;">${escapeHtml(params.temporaryPassword)}</code>
+      </p>
+      ${renderButton(params.loginUrl, 'Acessar o sistema')}
+      <p>Por segurança, você deverá definir uma nova senha no primeiro login.</p>`);
+
+  return { subject, text, html };
+}
+
+export function passwordResetEmail(params: {
+  firstName: string;
+  resetLink: string;
+  expiresInMinutes: number;
+}): EmailContent {
+  const subject = `Recuperação de senha - ${APP_NAME}`;
+
+  const text = [
+    `Olá, ${params.firstName}.`,
+    '',
+    'Recebemos uma solicitação para redefinir a sua senha. Para criar uma nova senha, acesse o link abaixo:',
+    '',
+    params.resetLink,
+    '',
+    `O link é válido por ${params.expiresInMinutes} minutos e só pode ser usado uma vez.`,
+    'Se você não fez esta solicitação, ignore este e-mail. Sua senha atual continua válida.',
+  ].join('\n');
+
+  const html = renderHtml(subject, `
+      <p>Olá, ${escapeHtml(params.firstName)}.</p>
+      <p>Recebemos uma solicitação para redefinir a sua senha.</p>
+      ${renderButton(params.resetLink, 'Redefinir senha')}
+      <p>O link é válido por ${params.expiresInMinutes} minutos e só pode ser usado uma vez.</p>
+      <p>Se você não fez esta solicitação, ignore este e-mail. Sua senha atual continua válida.</p>`);
+
+  return { subject, text, html };
+}
+
+// Lists which fields changed, never their values, since the alert may reach an old address
+export function accountChangedEmail(params: {
+  firstName: string;
+  changes: string[];
+  changedAt: Date;
+}): EmailContent {
+  const subject = `Alteração na sua conta - ${APP_NAME}`;
+  const changedAt = params.changedAt.toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' });
+  const labels = params.changes.map(change => ACCOUNT_CHANGE_LABELS[change] || change);
+
+  const text = [
+    `Olá, ${params.firstName}.`,
+    '',
+    `Os seguintes dados da sua conta foram alterados em ${changedAt}:`,
+    '',
+    ...labels.map(label => `- ${label}`),
+    '',
+    'Se você não reconhece esta alteração, entre em contato com o administrador do sistema imediatamente.',
+  ].join('\n');
+
+  const html = renderHtml(subject, `
+      <p>Olá, ${escapeHtml(params.firstName)}.</p>
+      <p>Os seguintes dados da sua conta foram alterados em ${escapeHtml(changedAt)}:</p>
+      <ul>
+        ${labels.map(label => `<li>${escapeHtml(label)}</li>`).join('\n        ')}
+      </ul>
+      <p>Se você não reconhece esta alteração, entre em contato com o administrador do sistema imediatamente.</p>`);
+
+  return { subject, text, html };
+}
@@ -0,0 +1,80 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { storage } from './storage';
+import { generateTwoFactorChallengeToken, hashPassword } from './auth';
+import { generateTotp, generateTotpSecret, hashRecoveryCode } from './totp';
+import { startTestApp } from './testApp';
+
+const testDatabase = vi.hoisted(async () => {
+  const { createTestDatabase } = await import('./testDatabase');
+  return createTestDatabase();
+});
+
+vi.mock('./db', () => ({ db: {} }));
+vi.mock('./storage', async (importOriginal) => {
+  const { DatabaseStorage } = await importOriginal<typeof import('./storage')>();
+  return { DatabaseStorage, storage: new DatabaseStorage(await testDatabase) };
+});
+
+const PASSWORD = 'Senha#Forte2026';
+const RECOVERY_CODE = 'a1b2c-3d4e5';
+
+describe('login of a locked account', () => {
+  let app: Awaited<ReturnType<typeof startTestApp>>;
+
+  async function post(path: string, body: Record<string, unknown>) {
+    const response = await fetch(`${app.url}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  async function createLockedUser(email: string) {
+    const user = await storage.createUser({
+      email,
+      firstName: 'Ana',
+      lastName: 'Souza',
+      password: await hashPassword(PASSWORD),
+      profile: 'NEGOTIATOR',
+      mustChangePassword: false,
+    });
+    const lockedUntil = new Date(Date.now() + 15 * 60 * 1000);
+    await storage.lockUser(user.id, lockedUntil);
+    return { user, lockedUntil };
+  }
+
+  beforeAll(async () => {
+    app = await startTestApp();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('answers like an unknown email, even with the right password', async () => {
+    const { user, lockedUntil } = await createLockedUser('ana.souza@example.com');
+
+    const unknown = await post('/api/auth/login', { email: 'nobody@example.com', password: PASSWORD });
+    const locked = await post('/api/auth/login', { email: 'ana.souza@example.com', password: PASSWORD });
+
+    expect(locked).toEqual(unknown);
+    expect(locked.status).toBe(401);
+    expect((await storage.getUser(user.id))?.lockedUntil).toEqual(lockedUntil);
+  });
+
+  it('answers a second factor like a wrong code and keeps the recovery code', async () => {
+    const { user } = await createLockedUser('rui.lima@example.com');
+    const secret = generateTotpSecret();
+    await storage.setTwoFactorSecret(user.id, secret);
+    await storage.enableTwoFactor(user.id, [hashRecoveryCode(RECOVERY_CODE)]);
+    const challengeToken = generateTwoFactorChallengeToken(user.id);
+
+    const withCode = await post('/api/auth/login/2fa', { challengeToken, code: generateTotp(secret) });
+    const withRecoveryCode = await post('/api/auth/login/2fa', { challengeToken, recoveryCode: RECOVERY_CODE });
+
+    expect(withCode).toEqual({ status: 401, body: { message: 'Invalid verification code' } });
+    expect(withRecoveryCode).toEqual(withCode);
+    expect((await storage.getUser(user.id))?.twoFactorRecoveryCodes).toEqual([hashRecoveryCode(RECOVERY_CODE)]);
+  });
+});
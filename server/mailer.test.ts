@@ -0,0 +1,83 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { emailOutbox } from '@shared/schema';
+import { storage } from './storage';
+import { queueEmail } from './mailer';
+import { welcomeEmail } from './emailTemplates';
+
+const testDatabase = vi.hoisted(async () => {
+  const { createTestDatabase } = await import('./testDatabase');
+  return createTestDatabase();
+});
+
+vi.mock('./db', () => ({ db: {} }));
+vi.mock('./storage', async (importOriginal) => {
+  const { DatabaseStorage } = await importOriginal<typeof import('./storage')>();
+  return { DatabaseStorage, storage: new DatabaseStorage(await testDatabase) };
+});
+
+const TEMPORARY_PASSWORD = 'Tmp#9xQ2vLk7';
+
+async function getOutboxEmails() {
+  return (await testDatabase).select().from(emailOutbox);
+}
+
+describe('mail outbox', () => {
+  let outboxDir: string;
+
+  beforeAll(async () => {
+    outboxDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mec-one-mailer-test-'));
+    process.env.MAIL_OUTBOX_DIR = outboxDir;
+    delete process.env.SMTP_HOST;
+  });
+
+  afterAll(async () => {
+    await fs.rm(outboxDir, { recursive: true, force: true });
+  });
+
+  it('delivers the email and then clears the secret it carried', async () => {
+    await queueEmail('WELCOME', { email: 'new.user@example.com' }, welcomeEmail({
+      firstName: 'Ana',
+      email: 'new.user@example.com',
+      temporaryPassword: TEMPORARY_PASSWORD,
+      loginUrl: 'http://localhost/login',
+    }));
+
+    await vi.waitFor(async () => {
+      const [email] = await getOutboxEmails();
+      expect(email.status).toBe('SENT');
+    });
+
+    const [email] = await getOutboxEmails();
+    expect(email.text).not.toContain(TEMPORARY_PASSWORD);
+    expect(email.html).not.toContain(TEMPORARY_PASSWORD);
+
+    const [fileName] = await fs.readdir(outboxDir);
+    expect(await fs.readFile(path.join(outboxDir, fileName), 'utf8')).toContain(TEMPORARY_PASSWORD);
+  });
+
+  it('keeps the body for a retry and clears it once delivery is given up', async () => {
+    const email = await storage.createOutboxEmail({
+      template: 'WELCOME',
+      to: 'other.user@example.com',
+      subject: 'Bem-vindo',
+      text: `Senha temporária: ${TEMPORARY_PASSWORD}`,
+      html: `<code>${TEMPORARY_PASSWORD}</code>`,
+    });
+    const db = await testDatabase;
+
+    await storage.markOutboxEmailFailed(email.id, 'Connection refused', new Date(Date.now() + 60 * 1000));
+    const [retried] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, email.id));
+    expect(retried.status).toBe('PENDING');
+    expect(retried.text).toContain(TEMPORARY_PASSWORD);
+
+    await storage.markOutboxEmailFailed(email.id, 'Connection refused', null);
+    const [failed] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, email.id));
+    expect(failed.status).toBe('FAILED');
+    expect(failed.text).toBe('');
+    expect(failed.html).toBe('');
+  });
+});
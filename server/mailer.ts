@@ -0,0 +1,169 @@
+import nodemailer from 'nodemailer';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { storage } from './storage';
+import type { EmailContent } from './emailTemplates';
+import type { OutboxEmail } from '@shared/schema';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class SmtpTransport implements MailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; password?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+// Writes each message as an .eml file instead of sending it, for development and tests
+export class FileTransport implements MailTransport {
+  private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const info = await this.transporter.sendMail(message);
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID()}.eml`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, fileName), info.message as Buffer);
+  }
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Mec One <no-reply@mecone.local>';
+const MAX_DELIVERY_ATTEMPTS = 6;
+const DELIVERY_BATCH_SIZE = 20;
+const DELIVERY_LEASE_MS = 5 * 60 * 1000;
+const OUTBOX_POLL_INTERVAL_MS = 60 * 1000;
+
+let transport: MailTransport | null = null;
+
+// SMTP when SMTP_HOST is set, otherwise the local outbox directory, kept outside the checkout by default
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = process.env.SMTP_HOST
+      ? new SmtpTransport({
+          host: process.env.SMTP_HOST,
+          port: parseInt(process.env.SMTP_PORT || '587'),
+          secure: process.env.SMTP_SECURE === 'true',
+          user: process.env.SMTP_USER,
+          password: process.env.SMTP_PASSWORD,
+        })
+      : new FileTransport(process.env.MAIL_OUTBOX_DIR || path.join(os.tmpdir(), 'mec-one-mail-outbox'));
+  }
+
+  return transport;
+}
+
+// 1, 2, 4, 8 and 16 minutes between attempts
+function getRetryDelayMs(attempts: number): number {
+  return Math.pow(2, attempts - 1) * 60 * 1000;
+}
+
+async function deliverOutboxEmail(email: OutboxEmail): Promise<void> {
+  try {
+    await getMailTransport().send({
+      from: MAIL_FROM,
+      to: email.to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+    });
+
+    await storage.markOutboxEmailSent(email.id);
+  } catch (error) {
+    const attempts = email.attempts + 1;
+    const nextAttemptAt = attempts < MAX_DELIVERY_ATTEMPTS
+      ? new Date(Date.now() + getRetryDelayMs(attempts))
+      : null;
+
+    console.error(`Email delivery error (${email.template} to ${email.to}, attempt ${attempts}):`, error);
+    await storage.markOutboxEmailFailed(email.id, error instanceof Error ? error.message : String(error), nextAttemptAt);
+  }
+}
+
+let isProcessing = false;
+let hasPendingRun = false;
+
+export async function processMailOutbox(): Promise<void> {
+  // Emails queued while a run is in progress are picked up by a follow-up run
+  if (isProcessing) {
+    hasPendingRun = true;
+    return;
+  }
+
+  isProcessing = true;
+
+  try {
+    do {
+      hasPendingRun = false;
+
+      let emails: OutboxEmail[];
+      do {
+        emails = await storage.claimDueOutboxEmails(
+          DELIVERY_BATCH_SIZE,
+          new Date(Date.now() + DELIVERY_LEASE_MS),
+        );
+
+        for (const email of emails) {
+          await deliverOutboxEmail(email);
+        }
+      } while (emails.length === DELIVERY_BATCH_SIZE);
+    } while (hasPendingRun);
+  } catch (error) {
+    console.error('Mail outbox error:', error);
+  } finally {
+    isProcessing = false;
+  }
+}
+
+// Stores the email and sends it in the background, so a mail outage never fails the request
+export async function queueEmail(
+  template: string,
+  recipient: { email: string; userId?: string },
+  content: EmailContent,
+): Promise<void> {
+  try {
+    await storage.createOutboxEmail({
+      template,
+      userId: recipient.userId,
+      to: recipient.email,
+      subject: content.subject,
+      text: content.text,
+      html: content.html,
+    });
+
+    void processMailOutbox();
+  } catch (error) {
+    console.error('Queue email error:', error);
+  }
+}
+
+export function startMailOutboxWorker(): void {
+  setInterval(() => {
+    void processMailOutbox();
+  }, OUTBOX_POLL_INTERVAL_MS).unref();
+
+  void processMailOutbox();
+}
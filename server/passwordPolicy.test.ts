@@ -0,0 +1,130 @@
+import bcrypt from 'bcrypt';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { storage } from './storage';
+import { getConfigBoolean, getConfigNumber } from './systemConfig';
+import { generateTemporaryPassword, getPasswordPolicyViolations } from './passwordPolicy';
+import type { PasswordHistory } from '@shared/schema';
+
+vi.mock('./storage', () => ({
+  storage: {
+    getPasswordHistory: vi.fn(),
+  },
+}));
+vi.mock('./systemConfig', () => ({
+  getConfigNumber: vi.fn(),
+  getConfigBoolean: vi.fn(),
+}));
+
+// The policy settings behind the mocked system configs, reset before each test
+let configs: Record<string, number | boolean>;
+let history: PasswordHistory[];
+
+function historyEntry(password: string): PasswordHistory {
+  return {
+    id: crypto.randomUUID(),
+    userId: 'user-1',
+    passwordHash: bcrypt.hashSync(password, 4),
+    createdAt: new Date(),
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+
+  configs = {
+    'password.min_length': 10,
+    'password.require_uppercase': true,
+    'password.require_lowercase': true,
+    'password.require_digit': true,
+    'password.require_symbol': false,
+    'password.history_count': 5,
+    'password.max_age_days': 0,
+  };
+  history = [];
+
+  vi.mocked(getConfigNumber).mockImplementation(async (key) => configs[key] as number);
+  vi.mocked(getConfigBoolean).mockImplementation(async (key) => configs[key] as boolean);
+  vi.mocked(storage.getPasswordHistory).mockImplementation(async (userId, limit) => history.slice(0, limit));
+});
+
+describe('getPasswordPolicyViolations', () => {
+  it('accepts a password that meets every rule', async () => {
+    expect(await getPasswordPolicyViolations('Ventania42Azul')).toEqual([]);
+  });
+
+  it.each([
+    ['MIN_LENGTH', 'Vento42Az'],
+    ['UPPERCASE', 'ventania42azul'],
+    ['LOWERCASE', 'VENTANIA42AZUL'],
+    ['DIGIT', 'VentaniaAzulada'],
+  ])('reports %s', async (violation, password) => {
+    expect(await getPasswordPolicyViolations(password)).toEqual([violation]);
+  });
+
+  it('only asks for a symbol when the policy requires one', async () => {
+    configs['password.require_symbol'] = true;
+
+    expect(await getPasswordPolicyViolations('Ventania42Azul')).toEqual(['SYMBOL']);
+    expect(await getPasswordPolicyViolations('Ventania42Azul!')).toEqual([]);
+  });
+
+  it('skips the character classes the policy does not require', async () => {
+    configs['password.require_uppercase'] = false;
+    configs['password.require_digit'] = false;
+
+    expect(await getPasswordPolicyViolations('ventaniaazul')).toEqual([]);
+  });
+
+  it('rejects common passwords regardless of case', async () => {
+    configs['password.min_length'] = 6;
+
+    expect(await getPasswordPolicyViolations('Senha@123')).toContain('COMMON_PASSWORD');
+  });
+
+  it('rejects passwords containing the name part of the email', async () => {
+    expect(await getPasswordPolicyViolations('Ana.Souza2026', { email: 'ana.souza@example.com' })).toEqual(['CONTAINS_EMAIL']);
+  });
+
+  it('ignores email names too short to matter', async () => {
+    expect(await getPasswordPolicyViolations('Ventania42Azul', { email: 'va@example.com' })).toEqual([]);
+  });
+
+  it('rejects a password found in the recent history', async () => {
+    history = [historyEntry('Primeira42Senha'), historyEntry('Ventania42Azul')];
+
+    expect(await getPasswordPolicyViolations('Ventania42Azul', { userId: 'user-1' })).toEqual(['REUSED']);
+    expect(await getPasswordPolicyViolations('Outra42Senha', { userId: 'user-1' })).toEqual([]);
+  });
+
+  it('only checks as many previous passwords as configured', async () => {
+    configs['password.history_count'] = 1;
+    history = [historyEntry('Primeira42Senha'), historyEntry('Ventania42Azul')];
+
+    expect(await getPasswordPolicyViolations('Ventania42Azul', { userId: 'user-1' })).toEqual([]);
+  });
+
+  it('does not check the history when it is disabled', async () => {
+    configs['password.history_count'] = 0;
+
+    await getPasswordPolicyViolations('Ventania42Azul', { userId: 'user-1' });
+
+    expect(storage.getPasswordHistory).not.toHaveBeenCalled();
+  });
+});
+
+describe('generateTemporaryPassword', () => {
+  it('satisfies the strictest policy', async () => {
+    configs['password.require_symbol'] = true;
+
+    for (let i = 0; i < 20; i++) {
+      const password = await generateTemporaryPassword();
+      expect(await getPasswordPolicyViolations(password)).toEqual([]);
+    }
+  });
+
+  it('grows with the minimum length', async () => {
+    configs['password.min_length'] = 24;
+
+    expect(await generateTemporaryPassword()).toHaveLength(24);
+  });
+});
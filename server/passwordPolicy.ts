@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import { storage } from './storage';
+import { getConfigBoolean, getConfigNumber } from './systemConfig';
+import type { User } from '@shared/schema';
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  historyCount: number;
+  maxAgeDays: number;
+}
+
+// Codes returned to the client, which maps them to localized messages
+export type PasswordPolicyViolation =
+  | 'MIN_LENGTH'
+  | 'UPPERCASE'
+  | 'LOWERCASE'
+  | 'DIGIT'
+  | 'SYMBOL'
+  | 'COMMON_PASSWORD'
+  | 'CONTAINS_EMAIL'
+  | 'REUSED';
+
+// Frequently leaked passwords, compared case-insensitively
+const COMMON_PASSWORDS = new Set([
+  '123456', '12345678', '123456789', '1234567890', '12345678910', '87654321',
+  '111111', '11111111', '000000', '00000000', '123123', '123123123', '654321',
+  'password', 'password1', 'password123', 'passw0rd', 'p@ssw0rd', 'p@ssword',
+  'qwerty', 'qwerty123', 'qwertyuiop', 'asdfghjkl', 'abc123', 'abcd1234',
+  'admin', 'admin123', 'admin@123', 'administrator', 'root', 'changeme',
+  'welcome', 'welcome1', 'welcome123', 'letmein', 'iloveyou', 'monkey',
+  'dragon', 'football', 'baseball', 'sunshine', 'princess', 'master',
+  'senha', 'senha123', 'senha@123', 'senha1234', 'mudar123', 'mudar@123',
+  'brasil', 'brasil123', 'flamengo', 'corinthians', 'palmeiras', 'mec123',
+  'mecone', 'mecone123',
+]);
+
+const SYMBOL_REGEX = /[^A-Za-z0-9]/;
+
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
+  return {
+    minLength: await getConfigNumber('password.min_length'),
+    requireUppercase: await getConfigBoolean('password.require_uppercase'),
+    requireLowercase: await getConfigBoolean('password.require_lowercase'),
+    requireDigit: await getConfigBoolean('password.require_digit'),
+    requireSymbol: await getConfigBoolean('password.require_symbol'),
+    historyCount: await getConfigNumber('password.history_count'),
+    maxAgeDays: await getConfigNumber('password.max_age_days'),
+  };
+}
+
+export async function getPasswordPolicyViolations(
+  password: string,
+  context: { email?: string; userId?: string } = {},
+): Promise<PasswordPolicyViolation[]> {
+  const policy = await getPasswordPolicy();
+  const violations: PasswordPolicyViolation[] = [];
+
+  if (password.length < policy.minLength) violations.push('MIN_LENGTH');
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) violations.push('UPPERCASE');
+  if (policy.requireLowercase && !/[a-z]/.test(password)) violations.push('LOWERCASE');
+  if (policy.requireDigit && !/[0-9]/.test(password)) violations.push('DIGIT');
+  if (policy.requireSymbol && !SYMBOL_REGEX.test(password)) violations.push('SYMBOL');
+
+  if (COMMON_PASSWORDS.has(password.toLowerCase())) {
+    violations.push('COMMON_PASSWORD');
+  }
+
+  const emailName = context.email?.split('@')[0].toLowerCase();
+  if (emailName && emailName.length >= 3 && password.toLowerCase().includes(emailName)) {
+    violations.push('CONTAINS_EMAIL');
+  }
+
+  if (context.userId && policy.historyCount > 0) {
+    const history = await storage.getPasswordHistory(context.userId, policy.historyCount);
+    for (const entry of history) {
+      if (await bcrypt.compare(password, entry.passwordHash)) {
+        violations.push('REUSED');
+        break;
+      }
+    }
+  }
+
+  return violations;
+}
+
+export async function isPasswordExpired(user: User): Promise<boolean> {
+  // Users linked to the identity provider have their password managed there
+  if (user.ssoSubject) {
+    return false;
+  }
+
+  const maxAgeDays = await getConfigNumber('password.max_age_days');
+  if (maxAgeDays <= 0) {
+    return false;
+  }
+
+  const changedAt = user.passwordChangedAt ?? user.createdAt;
+  return Date.now() - changedAt.getTime() > maxAgeDays * 24 * 60 * 60 * 1000;
+}
+
+// Temporary passwords always contain every character class so they satisfy any policy configuration
+export async function generateTemporaryPassword(): Promise<string> {
+  const { minLength } = await getPasswordPolicy();
+  const length = Math.max(16, minLength);
+
+  // Ambiguous characters (0/O, 1/l/I) are left out since these are often read aloud or retyped
+  const classes = [
+    'ABCDEFGHJKLMNPQRSTUVWXYZ',
+    'abcdefghijkmnopqrstuvwxyz',
+    '23456789',
+    '!@#$%&*?',
+  ];
+  const allCharacters = classes.join('');
+
+  const characters = classes.map(set => set[crypto.randomInt(set.length)]);
+  while (characters.length < length) {
+    characters.push(allCharacters[crypto.randomInt(allCharacters.length)]);
+  }
+
+  // Fisher-Yates shuffle so the guaranteed characters are not always at the start
+  for (let i = characters.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [characters[i], characters[j]] = [characters[j], characters[i]];
+  }
+
+  return characters.join('');
+}
@@ -0,0 +1,87 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { storage } from './storage';
+import { comparePassword, generatePasswordResetToken } from './auth';
+import { startTestApp } from './testApp';
+import type { User } from '@shared/schema';
+
+const testDatabase = vi.hoisted(async () => {
+  const { createTestDatabase } = await import('./testDatabase');
+  return createTestDatabase();
+});
+
+vi.mock('./db', () => ({ db: {} }));
+vi.mock('./storage', async (importOriginal) => {
+  const { DatabaseStorage } = await importOriginal<typeof import('./storage')>();
+  return { DatabaseStorage, storage: new DatabaseStorage(await testDatabase) };
+});
+vi.mock('./mailer', () => ({ queueEmail: vi.fn() }));
+
+const NEW_PASSWORD = 'Nova#Senha2026';
+
+describe('password reset', () => {
+  let app: Awaited<ReturnType<typeof startTestApp>>;
+  let user: User;
+
+  async function issueToken(expiresAt = new Date(Date.now() + 60 * 60 * 1000)): Promise<string> {
+    const { token, tokenHash } = generatePasswordResetToken();
+    await storage.createPasswordResetToken(user.id, tokenHash, expiresAt);
+    return token;
+  }
+
+  function resetPassword(token: string, newPassword = NEW_PASSWORD) {
+    return fetch(`${app.url}/api/auth/reset-password`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, newPassword }),
+    });
+  }
+
+  beforeAll(async () => {
+    app = await startTestApp();
+    user = await storage.createUser({
+      email: 'ana.souza@example.com',
+      firstName: 'Ana',
+      lastName: 'Souza',
+      password: 'hash',
+      profile: 'NEGOTIATOR',
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('sets the new password and accepts the link only once', async () => {
+    const token = await issueToken();
+
+    expect((await resetPassword(token)).status).toBe(200);
+    expect(await comparePassword(NEW_PASSWORD, (await storage.getUser(user.id))!.password)).toBe(true);
+
+    const reused = await resetPassword(token, 'Outra#Senha2026');
+    expect(reused.status).toBe(400);
+    expect(await comparePassword(NEW_PASSWORD, (await storage.getUser(user.id))!.password)).toBe(true);
+  });
+
+  it('rejects an expired link', async () => {
+    const token = await issueToken(new Date(Date.now() - 1000));
+
+    const response = await resetPassword(token);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).message).toBe('Invalid or expired recovery link');
+  });
+
+  it('rejects an unknown link', async () => {
+    const response = await resetPassword(generatePasswordResetToken().token);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).message).toBe('Invalid or expired recovery link');
+  });
+
+  it('keeps the link usable when the password breaks the policy', async () => {
+    const token = await issueToken();
+
+    expect((await resetPassword(token, 'fraca')).status).toBe(400);
+    expect((await resetPassword(token, 'Mais#Forte2026')).status).toBe(200);
+  });
+});
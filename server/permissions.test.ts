@@ -0,0 +1,190 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { storage } from './storage';
+import { clearPermissionCache, getAccessScope, getOwnPermissions, getUserPermissions } from './permissions';
+import {
+  permissions,
+  type Delegation,
+  type Permission,
+  type PermissionAction,
+  type PermissionModule,
+  type ProfilePermission,
+  type User,
+  type WorkGroupPermission,
+} from '@shared/schema';
+
+vi.mock('./storage', () => ({
+  storage: {
+    getProfilePermissions: vi.fn(),
+    getWorkGroupPermissions: vi.fn(),
+    getUserWorkGroupIds: vi.fn(),
+    getActiveDelegations: vi.fn(),
+    getUser: vi.fn(),
+  },
+}));
+
+type UserProfile = User['profile'];
+
+// In-memory rows behind the mocked storage, reset before each test
+let profileMatrix: Partial<Record<UserProfile, Permission[]>>;
+let overrides: WorkGroupPermission[];
+let memberships: Record<string, string[]>;
+let delegations: Delegation[];
+let users: Record<string, User>;
+
+const createdAt = new Date('2026-01-01T00:00:00Z');
+
+function toRow(permission: Permission) {
+  const [module, action] = permission.split(':') as [PermissionModule, PermissionAction];
+  return { module, action };
+}
+
+function profilePermission(profile: UserProfile, permission: Permission): ProfilePermission {
+  return { id: `${profile}:${permission}`, profile, ...toRow(permission), createdAt, createdBy: null };
+}
+
+function override(groupId: string, profile: UserProfile, permission: Permission, effect: WorkGroupPermission['effect']): WorkGroupPermission {
+  return { id: `${groupId}:${profile}:${permission}`, groupId, profile, ...toRow(permission), effect, createdAt, createdBy: null };
+}
+
+function delegation(grant: Pick<Delegation, 'fromUserId' | 'toUserId' | 'permissions' | 'workGroupIds'>): Delegation {
+  return {
+    id: `${grant.fromUserId}:${grant.toUserId}`,
+    ...grant,
+    startsAt: createdAt,
+    endsAt: new Date('2099-01-01T00:00:00Z'),
+    reason: 'Férias',
+    revokedAt: null,
+    revokedBy: null,
+    createdAt,
+    createdBy: null,
+  };
+}
+
+function buildUser(id: string, profile: UserProfile): User {
+  return {
+    id,
+    email: `${id}@example.com`,
+    firstName: id,
+    lastName: 'Test',
+    password: 'hash',
+    profile,
+    isActive: true,
+    temporaryPassword: false,
+    mustChangePassword: false,
+    failedLoginAttempts: 0,
+    lockedUntil: null,
+    twoFactorEnabled: false,
+    twoFactorSecret: null,
+    twoFactorRecoveryCodes: null,
+    passwordChangedAt: createdAt,
+    ssoIssuer: null,
+    ssoSubject: null,
+    lastLogin: null,
+    createdAt,
+    updatedAt: createdAt,
+    createdBy: null,
+    updatedBy: null,
+  };
+}
+
+const coordinator = { id: 'coordinator', profile: 'COORDINATOR' };
+const negotiator = { id: 'negotiator', profile: 'NEGOTIATOR' };
+
+beforeEach(() => {
+  clearPermissionCache();
+
+  profileMatrix = {
+    COORDINATOR: ['dashboard:VIEW', 'entities:VIEW', 'processes:VIEW', 'processes:APPROVE'],
+    NEGOTIATOR: ['dashboard:VIEW', 'entities:VIEW'],
+  };
+  overrides = [];
+  memberships = { coordinator: ['group-a'], negotiator: ['group-b'] };
+  delegations = [];
+  users = {
+    coordinator: buildUser('coordinator', 'COORDINATOR'),
+    negotiator: buildUser('negotiator', 'NEGOTIATOR'),
+  };
+
+  vi.mocked(storage.getProfilePermissions).mockImplementation(async (profile) =>
+    profile ? (profileMatrix[profile] ?? []).map(permission => profilePermission(profile, permission)) : []
+  );
+  vi.mocked(storage.getWorkGroupPermissions).mockImplementation(async () => overrides);
+  vi.mocked(storage.getUserWorkGroupIds).mockImplementation(async (userId) => memberships[userId] ?? []);
+  vi.mocked(storage.getActiveDelegations).mockImplementation(async (userId) =>
+    delegations.filter(grant => grant.toUserId === userId)
+  );
+  vi.mocked(storage.getUser).mockImplementation(async (id) => users[id]);
+});
+
+describe('getOwnPermissions', () => {
+  it('follows the profile matrix', async () => {
+    expect(await getOwnPermissions(negotiator)).toEqual(['dashboard:VIEW', 'entities:VIEW']);
+  });
+
+  it('gives administrators every permission regardless of the matrix', async () => {
+    expect(await getOwnPermissions({ id: 'admin', profile: 'ADMINISTRATOR' })).toEqual(permissions);
+  });
+
+  it('gives an unknown profile no permission', async () => {
+    expect(await getOwnPermissions({ id: 'someone', profile: 'UNKNOWN' })).toEqual([]);
+  });
+
+  it('applies the overrides of the user\'s groups for the user\'s profile only', async () => {
+    overrides = [
+      override('group-b', 'NEGOTIATOR', 'entities:EDIT', 'GRANT'),
+      override('group-b', 'COORDINATOR', 'entities:DELETE', 'GRANT'),
+      override('group-a', 'NEGOTIATOR', 'entities:EXPORT', 'GRANT'),
+      override('group-b', 'NEGOTIATOR', 'dashboard:VIEW', 'REVOKE'),
+    ];
+
+    expect(await getOwnPermissions(negotiator)).toEqual(['entities:VIEW', 'entities:EDIT']);
+  });
+
+  it('lets a revoke win over a grant from another group', async () => {
+    memberships.negotiator = ['group-b', 'group-c'];
+    overrides = [
+      override('group-b', 'NEGOTIATOR', 'entities:EDIT', 'GRANT'),
+      override('group-c', 'NEGOTIATOR', 'entities:EDIT', 'REVOKE'),
+    ];
+
+    expect(await getOwnPermissions(negotiator)).not.toContain('entities:EDIT');
+  });
+});
+
+describe('getUserPermissions', () => {
+  it('adds the permissions lent by an active delegation', async () => {
+    delegations = [delegation({ fromUserId: 'coordinator', toUserId: 'negotiator', permissions: ['processes:APPROVE'], workGroupIds: [] })];
+
+    expect(await getUserPermissions(negotiator)).toContain('processes:APPROVE');
+    expect(await getOwnPermissions(negotiator)).not.toContain('processes:APPROVE');
+  });
+
+  it('never lends more than the delegating user still holds', async () => {
+    overrides = [override('group-a', 'COORDINATOR', 'processes:APPROVE', 'REVOKE')];
+    delegations = [delegation({ fromUserId: 'coordinator', toUserId: 'negotiator', permissions: ['processes:APPROVE', 'processes:VIEW'], workGroupIds: [] })];
+
+    const userPermissions = await getUserPermissions(negotiator);
+    expect(userPermissions).toContain('processes:VIEW');
+    expect(userPermissions).not.toContain('processes:APPROVE');
+  });
+
+  it('ignores delegations from users deactivated meanwhile', async () => {
+    users.coordinator.isActive = false;
+    delegations = [delegation({ fromUserId: 'coordinator', toUserId: 'negotiator', permissions: ['processes:APPROVE'], workGroupIds: [] })];
+
+    expect(await getUserPermissions(negotiator)).toEqual(['dashboard:VIEW', 'entities:VIEW']);
+  });
+});
+
+describe('getAccessScope', () => {
+  it('does not restrict managers and administrators to their groups', async () => {
+    expect(await getAccessScope({ id: 'manager', profile: 'MANAGER' })).toEqual({ userId: 'manager', workGroupIds: null });
+    expect(await getAccessScope({ id: 'admin', profile: 'ADMINISTRATOR' })).toEqual({ userId: 'admin', workGroupIds: null });
+  });
+
+  it('adds the delegated groups the delegating user still belongs to', async () => {
+    delegations = [delegation({ fromUserId: 'coordinator', toUserId: 'negotiator', permissions: [], workGroupIds: ['group-a', 'group-z'] })];
+
+    expect(await getAccessScope(negotiator)).toEqual({ userId: 'negotiator', workGroupIds: ['group-b', 'group-a'] });
+  });
+});
@@ -0,0 +1,207 @@
+import memoize from 'memoizee';
+import { storage, type AccessScope } from './storage';
+import type { Delegation, User } from '@shared/schema';
+import {
+  permissions,
+  userProfiles,
+  type Permission,
+  type PermissionAction,
+  type PermissionModule,
+} from '@shared/schema';
+
+type UserProfile = typeof userProfiles[number];
+
+function isUserProfile(value: string): value is UserProfile {
+  return (userProfiles as readonly string[]).includes(value);
+}
+
+function modulePermissions(module: PermissionModule, actions: readonly PermissionAction[]): Permission[] {
+  return actions.map(action => `${module}:${action}` as Permission);
+}
+
+// Every profile can reach the dashboard, look up work groups and maintain the shared entity registry
+const BASE_PERMISSIONS: Permission[] = [
+  'dashboard:VIEW',
+  'work-groups:VIEW',
+  ...modulePermissions('entities', ['VIEW', 'CREATE', 'EDIT']),
+];
+
+// Initial matrix, following the profile descriptions in the PRD
+export const DEFAULT_PROFILE_PERMISSIONS: Record<UserProfile, Permission[]> = {
+  // All actions available in the system
+  ADMINISTRATOR: permissions,
+  // All actions on every contract and process
+  MANAGER: [
+    ...BASE_PERMISSIONS,
+    ...modulePermissions('users', ['VIEW', 'CREATE', 'EDIT']),
+    ...modulePermissions('work-groups', ['CREATE', 'EDIT']),
+    ...modulePermissions('entities', ['DELETE', 'IMPORT', 'EXPORT']),
+    'sensitive-data:VIEW',
+    ...modulePermissions('contracts', ['VIEW', 'CREATE', 'EDIT', 'DELETE', 'IMPORT', 'EXPORT', 'APPROVE']),
+    ...modulePermissions('processes', ['VIEW', 'CREATE', 'EDIT', 'DELETE', 'IMPORT', 'EXPORT', 'APPROVE']),
+    ...modulePermissions('delegations', ['VIEW', 'CREATE', 'DELETE']),
+  ],
+  // All actions on the work group's contracts and processes, except deletion
+  COORDINATOR: [
+    ...BASE_PERMISSIONS,
+    ...modulePermissions('entities', ['IMPORT', 'EXPORT']),
+    ...modulePermissions('contracts', ['VIEW', 'CREATE', 'EDIT', 'IMPORT', 'EXPORT', 'APPROVE']),
+    ...modulePermissions('processes', ['VIEW', 'CREATE', 'EDIT', 'IMPORT', 'EXPORT', 'APPROVE']),
+  ],
+  // Read, edit and create the work group's contracts
+  NEGOTIATOR: [
+    ...BASE_PERMISSIONS,
+    ...modulePermissions('contracts', ['VIEW', 'CREATE', 'EDIT']),
+  ],
+  // Read, edit and create the work group's processes
+  LAWYER: [
+    ...BASE_PERMISSIONS,
+    ...modulePermissions('processes', ['VIEW', 'CREATE', 'EDIT']),
+  ],
+  // All actions on the work group's processes, except deletion
+  CONTROLLER: [
+    ...BASE_PERMISSIONS,
+    ...modulePermissions('processes', ['VIEW', 'CREATE', 'EDIT', 'IMPORT', 'EXPORT', 'APPROVE']),
+  ],
+};
+
+// The matrix is read on every authorized request, so cache it briefly like the system configs
+const getCachedProfilePermissions = memoize(
+  async (profile: UserProfile): Promise<Permission[]> => {
+    const rows = await storage.getProfilePermissions(profile);
+    return rows.map(row => `${row.module}:${row.action}` as Permission);
+  },
+  { promise: true, maxAge: 60 * 1000 },
+);
+
+const getCachedWorkGroupPermissions = memoize(
+  () => storage.getWorkGroupPermissions(),
+  { promise: true, maxAge: 60 * 1000 },
+);
+
+// Administrators always hold every permission, so the matrix can never lock them out
+export async function getProfilePermissions(profile: string): Promise<Permission[]> {
+  if (profile === 'ADMINISTRATOR') {
+    return permissions;
+  }
+
+  // The profile comes from the token, so an unknown one simply holds nothing
+  return isUserProfile(profile) ? getCachedProfilePermissions(profile) : [];
+}
+
+// The profile's permissions adjusted by the overrides of the user's work groups; a revoke wins over a grant.
+// These are also the permissions the user can lend through a delegation
+export async function getOwnPermissions(user: { id: string; profile: string }): Promise<Permission[]> {
+  const profilePermissions = await getProfilePermissions(user.profile);
+  if (user.profile === 'ADMINISTRATOR') {
+    return profilePermissions;
+  }
+
+  const workGroupIds = await storage.getUserWorkGroupIds(user.id);
+  const overrides = (await getCachedWorkGroupPermissions()).filter(
+    override => override.profile === user.profile && workGroupIds.includes(override.groupId)
+  );
+
+  const userPermissions = new Set(profilePermissions);
+  for (const override of overrides) {
+    if (override.effect === 'GRANT') {
+      userPermissions.add(`${override.module}:${override.action}` as Permission);
+    }
+  }
+  for (const override of overrides) {
+    if (override.effect === 'REVOKE') {
+      userPermissions.delete(`${override.module}:${override.action}` as Permission);
+    }
+  }
+
+  return permissions.filter(permission => userPermissions.has(permission));
+}
+
+// Delegations from users that were deactivated meanwhile no longer apply
+async function getActiveDelegations(userId: string): Promise<{ delegation: Delegation; delegator: User }[]> {
+  const activeDelegations: { delegation: Delegation; delegator: User }[] = [];
+
+  for (const delegation of await storage.getActiveDelegations(userId)) {
+    const delegator = await storage.getUser(delegation.fromUserId);
+    if (delegator?.isActive) {
+      activeDelegations.push({ delegation, delegator });
+    }
+  }
+
+  return activeDelegations;
+}
+
+// Own permissions plus those lent by active delegations, never beyond what the delegating user holds today
+export async function getUserPermissions(user: { id: string; profile: string }): Promise<Permission[]> {
+  const ownPermissions = await getOwnPermissions(user);
+  if (user.profile === 'ADMINISTRATOR') {
+    return ownPermissions;
+  }
+
+  const userPermissions = new Set(ownPermissions);
+  for (const { delegation, delegator } of await getActiveDelegations(user.id)) {
+    const delegatorPermissions = await getOwnPermissions(delegator);
+    delegation.permissions
+      .filter(permission => delegatorPermissions.includes(permission))
+      .forEach(permission => userPermissions.add(permission));
+  }
+
+  return permissions.filter(permission => userPermissions.has(permission));
+}
+
+export async function hasPermission(
+  user: { id: string; profile: string },
+  module: PermissionModule,
+  action: PermissionAction,
+): Promise<boolean> {
+  return (await getUserPermissions(user)).includes(`${module}:${action}` as Permission);
+}
+
+// Profiles whose permissions apply to every record, not just their work groups' records
+const UNSCOPED_PROFILES = ['ADMINISTRATOR', 'MANAGER'];
+
+// Active delegations add the delegated work groups the delegating user still belongs to
+export async function getAccessScope(user: { id: string; profile: string }): Promise<AccessScope> {
+  if (UNSCOPED_PROFILES.includes(user.profile)) {
+    return { userId: user.id, workGroupIds: null };
+  }
+
+  const workGroupIds = new Set(await storage.getUserWorkGroupIds(user.id));
+  for (const { delegation, delegator } of await getActiveDelegations(user.id)) {
+    const delegatorWorkGroupIds = await storage.getUserWorkGroupIds(delegator.id);
+    delegation.workGroupIds
+      .filter(workGroupId => delegatorWorkGroupIds.includes(workGroupId))
+      .forEach(workGroupId => workGroupIds.add(workGroupId));
+  }
+
+  return { userId: user.id, workGroupIds: Array.from(workGroupIds) };
+}
+
+export function clearPermissionCache() {
+  getCachedProfilePermissions.clear();
+  getCachedWorkGroupPermissions.clear();
+}
+
+// Seeds the defaults of every permission the matrix does not know yet, so permissions added to the
+// catalogue later reach existing databases while earlier changes by administrators are kept.
+// Administrator rows cannot be edited, so they tell which permissions were already seeded
+export async function seedProfilePermissions() {
+  try {
+    const seededPermissions = new Set(
+      (await storage.getProfilePermissions('ADMINISTRATOR')).map(row => `${row.module}:${row.action}`)
+    );
+
+    await storage.createProfilePermissions(
+      Object.entries(DEFAULT_PROFILE_PERMISSIONS).flatMap(([profile, profilePermissions]) =>
+        profilePermissions
+          .filter(permission => !seededPermissions.has(permission))
+          .map(permission => {
+            const [module, action] = permission.split(':') as [PermissionModule, PermissionAction];
+            return { profile: profile as UserProfile, module, action };
+          })
+      )
+    );
+  } catch (error) {
+    console.error('Error seeding profile permissions:', error);
+  }
+}
@@ -0,0 +1,101 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { auditLogs } from '@shared/schema';
+import { storage } from './storage';
+import { hashPassword } from './auth';
+import { startTestApp } from './testApp';
+
+const testDatabase = vi.hoisted(async () => {
+  const { createTestDatabase } = await import('./testDatabase');
+  return createTestDatabase();
+});
+
+vi.mock('./db', () => ({ db: {} }));
+vi.mock('./storage', async (importOriginal) => {
+  const { DatabaseStorage } = await importOriginal<typeof import('./storage')>();
+  return { DatabaseStorage, storage: new DatabaseStorage(await testDatabase) };
+});
+
+const PASSWORD = 'Senha#Forte2026';
+
+describe('refresh token rotation', () => {
+  let app: Awaited<ReturnType<typeof startTestApp>>;
+
+  function post(path: string, body: Record<string, unknown>) {
+    return fetch(`${app.url}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Token-Delivery': 'body' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async function login(): Promise<string> {
+    const response = await post('/api/auth/login', { email: 'ana.souza@example.com', password: PASSWORD });
+    return (await response.json()).refreshToken;
+  }
+
+  async function refresh(refreshToken: string) {
+    const response = await post('/api/auth/refresh', { refreshToken });
+    return { status: response.status, body: await response.json() };
+  }
+
+  beforeAll(async () => {
+    app = await startTestApp();
+    await storage.createUser({
+      email: 'ana.souza@example.com',
+      firstName: 'Ana',
+      lastName: 'Souza',
+      password: await hashPassword(PASSWORD),
+      profile: 'NEGOTIATOR',
+      mustChangePassword: false,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('issues a new pair of tokens and retires the old refresh token', async () => {
+    const refreshToken = await login();
+
+    const { status, body } = await refresh(refreshToken);
+
+    expect(status).toBe(200);
+    expect(body.refreshToken).toEqual(expect.any(String));
+    expect(body.refreshToken).not.toBe(refreshToken);
+    expect((await storage.getSessionByToken(refreshToken))?.isActive).toBe(false);
+  });
+
+  it('answers a concurrent refresh of an API client with 409 and keeps the session', async () => {
+    const refreshToken = await login();
+    const { body: rotated } = await refresh(refreshToken);
+
+    const replay = await refresh(refreshToken);
+
+    expect(replay.status).toBe(409);
+    expect(replay.body.refreshToken).toBeUndefined();
+    expect((await refresh(rotated.refreshToken)).status).toBe(200);
+  });
+
+  it('revokes the whole session family when a used token comes back after the grace period', async () => {
+    const refreshToken = await login();
+    const { body: rotated } = await refresh(refreshToken);
+    const session = await storage.getSessionByToken(rotated.refreshToken);
+
+    vi.useFakeTimers({ now: Date.now() + 31 * 1000, toFake: ['Date'] });
+
+    expect((await refresh(refreshToken)).status).toBe(401);
+    expect((await refresh(rotated.refreshToken)).status).toBe(401);
+    expect((await storage.getSessionByToken(rotated.refreshToken))?.isActive).toBe(false);
+
+    const reuseLogs = await (await testDatabase)
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.action, 'REFRESH_TOKEN_REUSE'));
+    expect(reuseLogs.map(log => log.userId)).toContain(session?.userId);
+  });
+});
@@ -1,18 +1,104 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type IStorage } from "./storage";
 import { 
   authenticate, 
-  authorize, 
+  requirePermission, 
+  requireRecordInScope,
   hashPassword, 
   comparePassword, 
+  getDummyPasswordHash,
   generateTokens, 
-  generateTemporaryPassword,
+  generateTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
+  isTwoFactorSetupRequired,
+  getTwoFactorRequiredProfiles,
+  generatePasswordResetToken,
+  generateApiKey,
+  signSsoFlowState,
+  verifySsoFlowState,
+  generateSsoLoginTicket,
+  hashSsoLoginTicket,
+  SSO_LOGIN_TICKET_TTL_MS,
+  readCookie,
+  setAuthCookies,
+  clearAuthCookies,
+  csrfProtection,
+  getAuditActor,
+  isImpersonatorAllowed,
+  REFRESH_TOKEN_COOKIE,
+  getSessionIdleTimeoutMs,
+  isSessionIdle,
+  isRecentlyRotated,
+  getLoginFailureDelayMs,
+  isUserLocked,
+  hashPasswordResetToken,
   verifyRefreshToken,
+  PASSWORD_RESET_TOKEN_TTL_MS,
+  REFRESH_TOKEN_TTL_MS,
   type AuthRequest 
 } from "./auth";
-import { insertUserSchema, insertWorkGroupSchema, insertEntitySchema } from "@shared/schema";
+import {
+  insertUserSchema,
+  insertWorkGroupSchema,
+  insertEntitySchema,
+  insertEntityAddressSchema,
+  insertEntityContactSchema,
+  insertApiKeySchema,
+  insertDelegationSchema,
+  userProfiles,
+  permissions,
+  permissionCatalogue,
+  permissionOverrideEffects,
+  type Permission,
+  type PermissionModule,
+  type PermissionAction,
+  type User,
+  type UserSession,
+  type ApiKey,
+  type ApiKeyWithOwner,
+  type InsertAuditLog,
+  type Delegation,
+  type DelegationWithUsers,
+  type EntityWithAddressesAndContacts,
+} from "@shared/schema";
 import { z } from "zod";
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { seedSystemConfigs, getConfigNumber } from "./systemConfig";
+import {
+  getPasswordPolicy,
+  getPasswordPolicyViolations,
+  isPasswordExpired,
+  generateTemporaryPassword,
+} from "./passwordPolicy";
+import {
+  getSsoSettings,
+  isSsoConfigured,
+  buildSsoAuthorizationUrl,
+  completeSsoAuthorization,
+  getSsoProfileMappingRules,
+  resolveSsoProfile,
+  type SsoIdentity,
+} from "./sso";
+import { queueEmail } from "./mailer";
+import {
+  seedProfilePermissions,
+  getProfilePermissions,
+  getOwnPermissions,
+  getUserPermissions,
+  getAccessScope,
+  clearPermissionCache,
+} from "./permissions";
+import { welcomeEmail, passwordResetEmail, accountChangedEmail } from "./emailTemplates";
+import {
+  generateTotpSecret,
+  verifyTotp,
+  buildOtpauthUrl,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+} from "./totp";
+import { canViewSensitiveData, maskEntity, getSensitiveFields, restoreMaskedEntity } from "./sensitiveData";
 
 // Seed initial admin user
 async function seedAdminUser() {
@@ -35,719 +121,2662 @@ async function seedAdminUser() {
   }
 }
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Seed admin user on startup
-  await seedAdminUser();
+// Session rows carry the refresh token, which must never leave the server
+function toSessionResponse(session: UserSession, currentSessionId?: string) {
+  return {
+    id: session.id,
+    ipAddress: session.ipAddress,
+    userAgent: session.userAgent,
+    createdAt: session.createdAt,
+    lastUsed: session.lastUsed,
+    expiresAt: session.expiresAt,
+    isCurrent: session.familyId === currentSessionId,
+  };
+}
 
-  // Auth routes
-  app.post('/api/auth/login', async (req, res) => {
-    try {
-      const { email, password } = req.body;
+// Only the prefix of a key is ever shown after creation
+function toApiKeyResponse(apiKey: ApiKey | ApiKeyWithOwner) {
+  const { keyHash, ...apiKeyResponse } = apiKey;
+  if (!('owner' in apiKeyResponse)) {
+    return apiKeyResponse;
+  }
 
-      if (!email || !password) {
-        return res.status(400).json({ message: 'Email and password are required' });
-      }
+  const { owner } = apiKeyResponse;
+  return {
+    ...apiKeyResponse,
+    owner: { id: owner.id, email: owner.email, firstName: owner.firstName, lastName: owner.lastName },
+  };
+}
 
-      const user = await storage.getUserByEmail(email);
+function toUserSummary(user: User) {
+  return { id: user.id, email: user.email, firstName: user.firstName, lastName: user.lastName };
+}
 
-      if (!user || !user.isActive) {
-        return res.status(401).json({ message: 'Invalid credentials' });
-      }
+// Delegations are never deleted; their status follows the period and the revocation
+function getDelegationStatus(delegation: Delegation): 'SCHEDULED' | 'ACTIVE' | 'EXPIRED' | 'REVOKED' {
+  const now = new Date();
 
-      const isValidPassword = await comparePassword(password, user.password);
+  if (delegation.revokedAt) {
+    return 'REVOKED';
+  }
+  if (delegation.endsAt <= now) {
+    return 'EXPIRED';
+  }
+  return delegation.startsAt > now ? 'SCHEDULED' : 'ACTIVE';
+}
 
-      if (!isValidPassword) {
-        return res.status(401).json({ message: 'Invalid credentials' });
-      }
+// Scoped users reach the delegations involving a user they can see, like the delegation list
+async function isDelegationInScope(req: AuthRequest, delegation: Delegation): Promise<boolean> {
+  const scope = await getAccessScope(req.user!);
+  return await storage.isRecordInScope('users', delegation.fromUserId, scope) ||
+    await storage.isRecordInScope('users', delegation.toUserId, scope);
+}
 
-      const tokens = generateTokens({
-        userId: user.id,
-        email: user.email,
-        profile: user.profile,
+// Scoped users only reach the keys of users they can see
+async function isApiKeyInScope(req: AuthRequest, apiKey: ApiKey): Promise<boolean> {
+  return storage.isRecordInScope('users', apiKey.userId, await getAccessScope(req.user!));
+}
+
+// A key acts with its owner's permissions, so whoever receives its secret must hold all of them
+async function canHoldApiKeyOf(req: AuthRequest, owner: User): Promise<boolean> {
+  const callerPermissions = await getUserPermissions(req.user!);
+  return (await getUserPermissions(owner)).every(permission => callerPermissions.includes(permission));
+}
+
+function toDelegationResponse(delegation: DelegationWithUsers) {
+  return {
+    ...delegation,
+    status: getDelegationStatus(delegation),
+    fromUser: toUserSummary(delegation.fromUser),
+    toUser: toUserSummary(delegation.toUser),
+  };
+}
+
+// Users without sensitive-data:VIEW receive documents, contacts and addresses masked
+async function toEntityResponse(req: AuthRequest, entity: EntityWithAddressesAndContacts) {
+  return await canViewSensitiveData(req.user!) ? entity : maskEntity(entity);
+}
+
+// Addresses and contacts sent on update; those with an id must already belong to the entity
+const entityDetailsSchema = z.object({
+  addresses: z.array(insertEntityAddressSchema.omit({ entityId: true }).extend({ id: z.string().uuid().optional() })).optional(),
+  contacts: z.array(insertEntityContactSchema.omit({ entityId: true }).extend({ id: z.string().uuid().optional() })).optional(),
+});
+
+// Alerts the account owner; an email change also warns the previous address
+async function notifyAccountChange(user: User, changes: string[], previousEmail?: string) {
+  if (changes.length === 0) {
+    return;
+  }
+
+  const content = accountChangedEmail({ firstName: user.firstName, changes, changedAt: new Date() });
+  const recipients = previousEmail && previousEmail !== user.email ? [user.email, previousEmail] : [user.email];
+
+  for (const email of recipients) {
+    await queueEmail('ACCOUNT_CHANGED', { email, userId: user.id }, content);
+  }
+}
+
+// ADMINISTRATOR is listed as holding everything, since the matrix never restricts it
+async function getPermissionMatrix() {
+  const matrix = Object.fromEntries(userProfiles.map(profile => [profile, [] as Permission[]]));
+
+  for (const row of await storage.getProfilePermissions()) {
+    matrix[row.profile]?.push(`${row.module}:${row.action}` as Permission);
+  }
+
+  return { profiles: userProfiles, catalogue: permissionCatalogue, matrix: { ...matrix, ADMINISTRATOR: permissions } };
+}
+
+async function getWorkGroupPermissionOverrides(groupId: string) {
+  const overrides = await storage.getWorkGroupPermissions(groupId);
+  return overrides.map(override => ({
+    profile: override.profile,
+    permission: `${override.module}:${override.action}` as Permission,
+    effect: override.effect,
+  }));
+}
+
+function splitPermission(permission: Permission): [PermissionModule, PermissionAction] {
+  return permission.split(':') as [PermissionModule, PermissionAction];
+}
+
+const permissionSchema = z.enum(permissions as [Permission, ...Permission[]]);
+
+// Every group must exist and be visible to the caller, so scoped users cannot assign groups outside their own
+async function areWorkGroupsAssignable(req: AuthRequest, workGroupIds: string[]): Promise<boolean> {
+  const scope = await getAccessScope(req.user!);
+
+  for (const workGroupId of workGroupIds) {
+    if (!await storage.getWorkGroup(workGroupId) || !await storage.isRecordInScope('work-groups', workGroupId, scope)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+const workGroupIdsSchema = z.array(z.string().uuid()).transform(ids => Array.from(new Set(ids)));
+
+// Group members can only be managed among the users visible to the caller
+async function areUsersInScope(req: AuthRequest, userIds: string[]): Promise<boolean> {
+  const scope = await getAccessScope(req.user!);
+
+  for (const userId of userIds) {
+    if (!await storage.getUser(userId) || !await storage.isRecordInScope('users', userId, scope)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+const workGroupMembersSchema = z.object({
+  userIds: z.array(z.string().uuid()).min(1).transform(ids => Array.from(new Set(ids))),
+});
+
+// One entry per user and group, so the roster of a group at any date can be rebuilt from the audit log.
+// Written through the storage of the membership change, so both commit together
+async function logWorkGroupMembershipChanges(
+  tx: IStorage,
+  req: AuthRequest,
+  action: 'ADD_MEMBER' | 'REMOVE_MEMBER',
+  groupId: string,
+  userIds: string[],
+) {
+  for (const userId of userIds) {
+    await tx.createAuditLog({
+      ...getAuditActor(req),
+      action,
+      table: 'user_work_groups',
+      recordId: groupId,
+      oldValues: action === 'REMOVE_MEMBER' ? { userId, groupId } : undefined,
+      newValues: action === 'ADD_MEMBER' ? { userId, groupId } : undefined,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+  }
+}
+
+const SSO_FLOW_COOKIE = 'mec_sso_flow';
+
+function getAppUrl(req: Request): string {
+  return process.env.APP_URL || `${req.protocol}://${req.get('host')}`;
+}
+
+// Finds the user for an SSO identity, linking by verified email or creating the account when a profile applies
+async function findOrProvisionSsoUser(req: Request, identity: SsoIdentity): Promise<User | undefined> {
+  const mappedProfile = resolveSsoProfile(identity, await getSsoProfileMappingRules());
+
+  let user = await storage.getUserBySsoSubject(identity.issuer, identity.subject);
+
+  if (!user && identity.email && identity.emailVerified) {
+    user = await storage.getUserByEmail(identity.email);
+
+    if (user) {
+      const linkedUserId = user.id;
+      await storage.transaction(async (tx) => {
+        await tx.linkSsoIdentity(linkedUserId, identity.issuer, identity.subject);
+
+        // Log identity link
+        await tx.createAuditLog({
+          userId: linkedUserId,
+          action: 'SSO_LINK',
+          table: 'users',
+          recordId: linkedUserId,
+          newValues: { ssoIssuer: identity.issuer, ssoSubject: identity.subject },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
       });
+    }
+  }
 
-      // Update last login using raw SQL since lastLogin is omitted from insertUserSchema
-      await storage.updateUserLastLogin(user.id, new Date());
+  if (!user) {
+    const profile = mappedProfile || (await getSsoSettings()).defaultProfile;
+    if (!profile || !identity.email || !identity.emailVerified) {
+      return undefined;
+    }
 
-      // Create session
-      const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-      await storage.createSession(
-        user.id, 
-        tokens.refreshToken, 
-        expiresAt,
-        req.ip,
-        req.get('User-Agent')
-      );
+    // The random password is never disclosed; the account signs in through the provider
+    const hashedPassword = await hashPassword(crypto.randomBytes(32).toString('hex'));
+    const email = identity.email;
 
-      // Log login
-      await storage.createAuditLog({
-        userId: user.id,
-        action: 'LOGIN',
+    return storage.transaction(async (tx) => {
+      const createdUser = await tx.createUser({
+        email,
+        firstName: identity.firstName || email.split('@')[0],
+        lastName: identity.lastName || '',
+        password: hashedPassword,
+        profile,
+        isActive: true,
+        temporaryPassword: false,
+        mustChangePassword: false,
+      });
+      await tx.linkSsoIdentity(createdUser.id, identity.issuer, identity.subject);
+
+      // Log just-in-time provisioning
+      await tx.createAuditLog({
+        userId: createdUser.id,
+        action: 'SSO_PROVISION',
         table: 'users',
-        recordId: user.id,
+        recordId: createdUser.id,
+        newValues: { email: createdUser.email, profile, ssoIssuer: identity.issuer, ssoSubject: identity.subject },
         ipAddress: req.ip,
         userAgent: req.get('User-Agent'),
       });
 
-      res.json({
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
-        user: {
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          profile: user.profile,
-          mustChangePassword: user.mustChangePassword,
-        },
+      return tx.getUser(createdUser.id);
+    });
+  }
+
+  // Mapping rules keep the profile in sync with the provider on every login
+  if (mappedProfile && mappedProfile !== user.profile) {
+    const existingUser = user;
+
+    return storage.transaction(async (tx) => {
+      const updatedUser = await tx.updateUser(existingUser.id, { profile: mappedProfile });
+
+      // Log profile sync
+      await tx.createAuditLog({
+        userId: existingUser.id,
+        action: 'SSO_PROFILE_SYNC',
+        table: 'users',
+        recordId: existingUser.id,
+        oldValues: { profile: existingUser.profile },
+        newValues: { profile: mappedProfile },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
       });
-    } catch (error) {
-      console.error('Login error:', error);
-      res.status(500).json({ message: 'Internal server error' });
-    }
-  });
 
-  app.post('/api/auth/refresh', async (req, res) => {
-    try {
-      const { refreshToken } = req.body;
+      return updatedUser;
+    });
+  }
 
-      if (!refreshToken) {
-        return res.status(400).json({ message: 'Refresh token is required' });
-      }
+  return user;
+}
 
-      const payload = verifyRefreshToken(refreshToken);
+async function getAuthAttemptWindowStart(): Promise<Date> {
+  return new Date(Date.now() - (await getConfigNumber('login.ip_window_minutes')) * 60 * 1000);
+}
 
-      if (!payload) {
-        return res.status(401).json({ message: 'Invalid refresh token' });
+async function countIpFailedLogins(req: Request): Promise<number> {
+  return storage.countRecentAuthAttempts({
+    kind: 'LOGIN',
+    ipAddress: req.ip,
+    since: await getAuthAttemptWindowStart(),
+  });
+}
+
+// Records a failed login, locks the account once the threshold is reached and slows the response down
+async function handleFailedLogin(req: Request, email: string, user: User | undefined, ipFailedAttempts: number) {
+  const maxFailedAttempts = await getConfigNumber('login.max_failed_attempts');
+  const lockoutMinutes = await getConfigNumber('login.lockout_minutes');
+
+  const failedAttempts = await storage.transaction(async (tx) => {
+    await tx.createAuthAttempt({
+      kind: 'LOGIN',
+      email,
+      userId: user?.id,
+      ipAddress: req.ip,
+    });
+
+    let attempts = ipFailedAttempts + 1;
+
+    if (user) {
+      attempts = await tx.incrementFailedLoginAttempts(user.id);
+
+      // A running lockout is not extended, or refused attempts would keep the owner out for good
+      if (attempts >= maxFailedAttempts && !isUserLocked(user)) {
+        const lockedUntil = new Date(Date.now() + lockoutMinutes * 60 * 1000);
+        await tx.lockUser(user.id, lockedUntil);
+
+        // Log account lockout
+        await tx.createAuditLog({
+          userId: user.id,
+          action: 'ACCOUNT_LOCKED',
+          table: 'users',
+          recordId: user.id,
+          newValues: { lockedUntil, failedAttempts: attempts },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
       }
+    }
 
-      // Verify session exists and is active
-      const session = await storage.getActiveSession(refreshToken);
+    // Log failed login
+    await tx.createAuditLog({
+      userId: user?.id,
+      action: 'LOGIN_FAILED',
+      table: 'users',
+      recordId: user?.id,
+      newValues: { email },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+
+    return attempts;
+  });
 
-      if (!session) {
-        return res.status(401).json({ message: 'Session not found or expired' });
-      }
+  const delayMs = getLoginFailureDelayMs(failedAttempts);
+  await new Promise(resolve => setTimeout(resolve, delayMs));
+}
 
-      const user = await storage.getUser(payload.userId);
+// API clients opt in to receiving the tokens in the body; browsers only get the httpOnly cookies
+function getTokensForApiClient(req: Request, tokens: { accessToken: string; refreshToken: string }) {
+  return req.get('X-Token-Delivery') === 'body' ? tokens : {};
+}
 
-      if (!user || !user.isActive) {
-        return res.status(401).json({ message: 'User not found or inactive' });
-      }
+// Cookie clients already hold the tokens set by the concurrent refresh; API clients only get them
+// in that request's body, so they are told to use those instead of being answered without tokens
+function respondTokensAlreadyRefreshed(req: Request, res: Response) {
+  if (req.get('X-Token-Delivery') === 'body') {
+    return res.status(409).json({ message: 'Tokens already refreshed by a concurrent request' });
+  }
+  return res.json({ message: 'Tokens already refreshed' });
+}
 
-      const tokens = generateTokens({
-        userId: user.id,
-        email: user.email,
-        profile: user.profile,
-      });
+// Issues tokens and opens a session once every login step has succeeded
+async function completeLogin(req: Request, res: Response, user: User, method: 'PASSWORD' | 'SSO' = 'PASSWORD') {
+  const sessionId = crypto.randomUUID();
+  const tokens = generateTokens({
+    userId: user.id,
+    email: user.email,
+    profile: user.profile,
+    sessionId,
+  });
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
 
-      res.json({
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
-      });
-    } catch (error) {
-      console.error('Token refresh error:', error);
-      res.status(500).json({ message: 'Internal server error' });
+  await storage.transaction(async (tx) => {
+    if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+      await tx.resetFailedLoginAttempts(user.id);
     }
+
+    // Update last login using raw SQL since lastLogin is omitted from insertUserSchema
+    await tx.updateUserLastLogin(user.id, new Date());
+
+    // Create session
+    await tx.createSession(
+      user.id,
+      sessionId,
+      tokens.refreshToken,
+      expiresAt,
+      req.ip,
+      req.get('User-Agent')
+    );
+
+    // Log login
+    await tx.createAuditLog({
+      userId: user.id,
+      action: 'LOGIN',
+      table: 'users',
+      recordId: user.id,
+      newValues: { method },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
   });
 
-  app.post('/api/auth/logout', authenticate, async (req: AuthRequest, res) => {
-    try {
-      const { refreshToken } = req.body;
+  setAuthCookies(req, res, tokens);
+
+  res.json({
+    ...getTokensForApiClient(req, tokens),
+    user: {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      profile: user.profile,
+      mustChangePassword: user.mustChangePassword,
+    },
+  });
+}
 
-      if (refreshToken) {
-        await storage.deactivateSession(refreshToken);
-      }
+// Re-issues the current session's tokens for another identity, keeping the session family.
+// The audit entry is only recorded together with the switch
+async function switchSessionUser(
+  req: AuthRequest,
+  res: Response,
+  user: User,
+  auditLog: InsertAuditLog,
+  impersonatorId?: string,
+): Promise<boolean> {
+  const session = await storage.getActiveSessionByFamily(req.user!.sessionId!);
+  if (!session) {
+    return false;
+  }
 
-      // Log logout
-      await storage.createAuditLog({
-        userId: req.user!.id,
-        action: 'LOGOUT',
-        table: 'users',
-        recordId: req.user!.id,
-        ipAddress: req.ip,
-        userAgent: req.get('User-Agent'),
-      });
+  const tokens = generateTokens({
+    userId: user.id,
+    email: user.email,
+    profile: user.profile,
+    sessionId: session.familyId,
+    impersonatorId,
+  });
 
-      res.json({ message: 'Logged out successfully' });
-    } catch (error) {
-      console.error('Logout error:', error);
-      res.status(500).json({ message: 'Internal server error' });
+  const rotatedSession = await storage.transaction(async (tx) => {
+    const newSession = await tx.rotateSession(
+      session.id,
+      tokens.refreshToken,
+      new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+      req.ip,
+      req.get('User-Agent')
+    );
+
+    if (newSession) {
+      await tx.createAuditLog(auditLog);
     }
+
+    return newSession;
   });
 
-  app.post('/api/auth/forgot-password', async (req, res) => {
+  if (!rotatedSession) {
+    return false;
+  }
+
+  setAuthCookies(req, res, tokens);
+
+  res.json({
+    ...getTokensForApiClient(req, tokens),
+    user: {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      profile: user.profile,
+    },
+  });
+  return true;
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Seed admin user and default settings on startup
+  await seedAdminUser();
+  await seedSystemConfigs();
+  await seedProfilePermissions();
+
+  app.use('/api', csrfProtection);
+
+  // Auth routes
+  app.post('/api/auth/login', async (req, res) => {
     try {
-      const { email } = req.body;
+      const { email, password } = req.body;
 
-      if (!email) {
-        return res.status(400).json({ message: 'Email is required' });
+      if (!email || !password) {
+        return res.status(400).json({ message: 'Email and password are required' });
       }
 
-      const user = await storage.getUserByEmail(email);
+      const ipFailedAttempts = await countIpFailedLogins(req);
 
-      if (!user) {
-        // Don't reveal if user exists
-        return res.json({ message: 'If the email exists, a recovery link has been sent' });
+      if (ipFailedAttempts >= await getConfigNumber('login.ip_max_failed_attempts')) {
+        return res.status(429).json({ message: 'Too many login attempts. Try again later.' });
       }
 
-      const temporaryPassword = generateTemporaryPassword();
-      const hashedPassword = await hashPassword(temporaryPassword);
+      const user = await storage.getUserByEmail(email);
 
-      await storage.updateUser(user.id, {
-        password: hashedPassword,
-        temporaryPassword: true,
-        mustChangePassword: true,
-        updatedAt: new Date(),
-      });
+      // The hash is always compared and every refusal is answered alike, so the response
+      // does not reveal whether the account exists, is inactive or is locked
+      const passwordMatches = await comparePassword(password, user?.password ?? await getDummyPasswordHash());
 
-      // Log password reset
-      await storage.createAuditLog({
-        userId: user.id,
-        action: 'PASSWORD_RESET',
-        table: 'users',
-        recordId: user.id,
-        ipAddress: req.ip,
-        userAgent: req.get('User-Agent'),
-      });
+      if (!user || !user.isActive || isUserLocked(user) || !passwordMatches) {
+        await handleFailedLogin(req, email, user, ipFailedAttempts);
+        return res.status(401).json({ message: 'Invalid credentials' });
+      }
 
-      // TODO: Send email with temporary password
-      console.log(`Temporary password for ${email}: ${temporaryPassword}`);
+      // Accounts with two-factor enabled get a challenge instead of tokens
+      if (user.twoFactorEnabled) {
+        return res.json({
+          twoFactorRequired: true,
+          challengeToken: generateTwoFactorChallengeToken(user.id),
+        });
+      }
 
-      res.json({ message: 'If the email exists, a recovery link has been sent' });
+      await completeLogin(req, res, user);
     } catch (error) {
-      console.error('Password reset error:', error);
+      console.error('Login error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.get('/api/auth/me', authenticate, async (req: AuthRequest, res) => {
+  app.post('/api/auth/login/2fa', async (req, res) => {
     try {
-      const userWithGroups = await storage.getUserWithWorkGroups(req.user!.id);
+      const twoFactorLoginSchema = z.object({
+        challengeToken: z.string().min(1),
+        code: z.string().optional(),
+        recoveryCode: z.string().optional(),
+      });
 
-      if (!userWithGroups) {
-        return res.status(404).json({ message: 'User not found' });
+      const { challengeToken, code, recoveryCode } = twoFactorLoginSchema.parse(req.body);
+
+      const challenge = verifyTwoFactorChallengeToken(challengeToken);
+
+      if (!challenge) {
+        return res.status(401).json({ message: 'Invalid or expired challenge' });
       }
 
-      res.json({
-        id: userWithGroups.id,
-        email: userWithGroups.email,
-        firstName: userWithGroups.firstName,
-        lastName: userWithGroups.lastName,
-        profile: userWithGroups.profile,
-        isActive: userWithGroups.isActive,
-        mustChangePassword: userWithGroups.mustChangePassword,
-        lastLogin: userWithGroups.lastLogin,
-        workGroups: userWithGroups.userWorkGroups.map(uwg => uwg.workGroup),
-      });
+      const ipFailedAttempts = await countIpFailedLogins(req);
+
+      if (ipFailedAttempts >= await getConfigNumber('login.ip_max_failed_attempts')) {
+        return res.status(429).json({ message: 'Too many login attempts. Try again later.' });
+      }
+
+      const user = await storage.getUser(challenge.userId);
+
+      if (!user || !user.isActive || !user.twoFactorEnabled || !user.twoFactorSecret) {
+        return res.status(401).json({ message: 'Invalid or expired challenge' });
+      }
+
+      // A locked account is answered like a wrong code, without spending a recovery code
+      const isLocked = isUserLocked(user);
+      let isValidCode = false;
+
+      if (code && !isLocked) {
+        isValidCode = verifyTotp(user.twoFactorSecret, code);
+      } else if (recoveryCode && !isLocked) {
+        // Recovery codes are single use
+        isValidCode = await storage.consumeTwoFactorRecoveryCode(user.id, hashRecoveryCode(recoveryCode));
+
+        if (isValidCode) {
+          await storage.createAuditLog({
+            userId: user.id,
+            action: 'TWO_FACTOR_RECOVERY_CODE_USED',
+            table: 'users',
+            recordId: user.id,
+            ipAddress: req.ip,
+            userAgent: req.get('User-Agent'),
+          });
+        }
+      }
+
+      if (!isValidCode) {
+        await handleFailedLogin(req, user.email, user, ipFailedAttempts);
+        return res.status(401).json({ message: 'Invalid verification code' });
+      }
+
+      await completeLogin(req, res, user);
     } catch (error) {
-      console.error('Get user error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Two-factor login error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  // Dashboard routes
-  app.get('/api/dashboard/stats', authenticate, async (req: AuthRequest, res) => {
+  // Public so the login page knows whether to offer single sign-on
+  app.get('/api/auth/sso/config', async (req, res) => {
     try {
-      const stats = await storage.getDashboardStats();
-      res.json(stats);
+      res.json({ enabled: isSsoConfigured(await getSsoSettings()) });
     } catch (error) {
-      console.error('Dashboard stats error:', error);
+      console.error('Get SSO config error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  // User management routes
-  app.get('/api/users', authenticate, authorize(['ADMINISTRATOR', 'MANAGER']), async (req: AuthRequest, res) => {
+  app.get('/api/auth/sso/login', async (req, res) => {
     try {
-      const { search, profile, isActive } = req.query;
+      const settings = await getSsoSettings();
+      if (!isSsoConfigured(settings)) {
+        return res.status(404).json({ message: 'Single sign-on is not enabled' });
+      }
 
-      const users = await storage.getUsers({
-        search: search as string,
-        profile: profile as string,
-        isActive: isActive === 'true' ? true : isActive === 'false' ? false : undefined,
-      });
+      const redirectUri = settings.redirectUri || `${getAppUrl(req)}/api/auth/sso/callback`;
+      const { url, flowState } = await buildSsoAuthorizationUrl(settings, redirectUri);
 
-      res.json(users);
+      res.cookie(SSO_FLOW_COOKIE, signSsoFlowState(flowState), {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: req.secure,
+        path: '/api/auth/sso',
+        maxAge: 10 * 60 * 1000,
+      });
+      res.redirect(url.href);
     } catch (error) {
-      console.error('Get users error:', error);
-      res.status(500).json({ message: 'Internal server error' });
+      console.error('SSO login error:', error);
+      res.redirect('/?sso_error=failed');
     }
   });
 
-  app.post('/api/users', authenticate, authorize(['ADMINISTRATOR', 'MANAGER']), async (req: AuthRequest, res) => {
+  // The provider redirects the browser here, so failures redirect back to the login page
+  app.get('/api/auth/sso/callback', async (req, res) => {
     try {
-      const { workGroupId, ...userData } = req.body;
-      
-      // Create validation schema that allows workGroupId to be undefined or string
-      const createUserSchema = insertUserSchema.extend({
-        workGroupId: z.string().optional(),
-      });
-      
-      const validatedData = createUserSchema.parse({ ...userData, workGroupId });
-      const { workGroupId: validatedWorkGroupId, ...validatedUserData } = validatedData;
+      const flowStateCookie = readCookie(req, SSO_FLOW_COOKIE);
+      res.clearCookie(SSO_FLOW_COOKIE, { path: '/api/auth/sso' });
 
-      // Check if email already exists
-      const existingUser = await storage.getUserByEmail(validatedUserData.email);
-      if (existingUser) {
-        return res.status(400).json({ message: 'Email already exists' });
+      const settings = await getSsoSettings();
+      const flowState = flowStateCookie ? verifySsoFlowState(flowStateCookie) : null;
+
+      if (!isSsoConfigured(settings) || !flowState) {
+        return res.redirect('/?sso_error=failed');
       }
 
-      // Generate temporary password
-      const temporaryPassword = generateTemporaryPassword();
-      const hashedPassword = await hashPassword(temporaryPassword);
+      if (req.query.error) {
+        return res.redirect('/?sso_error=denied');
+      }
 
-      const newUser = await storage.createUser({
-        ...validatedUserData,
-        password: hashedPassword,
-        temporaryPassword: true,
-        mustChangePassword: true,
-        createdBy: req.user!.id,
-      });
+      const redirectUri = settings.redirectUri || `${getAppUrl(req)}/api/auth/sso/callback`;
+      const callbackUrl = new URL(redirectUri);
+      callbackUrl.search = new URLSearchParams(req.query as Record<string, string>).toString();
 
-      // Add user to work group if specified
-      if (validatedWorkGroupId && validatedWorkGroupId.trim() !== "") {
-        await storage.addUserToWorkGroup(newUser.id, validatedWorkGroupId);
+      const identity = await completeSsoAuthorization(settings, callbackUrl, flowState);
+      const user = await findOrProvisionSsoUser(req, identity);
+
+      if (!user) {
+        // Log rejected single sign-on
+        await storage.createAuditLog({
+          action: 'SSO_LOGIN_FAILED',
+          table: 'users',
+          newValues: { email: identity.email, ssoIssuer: identity.issuer, ssoSubject: identity.subject },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+        return res.redirect('/?sso_error=no_account');
       }
 
-      // Log user creation
-      await storage.createAuditLog({
-        userId: req.user!.id,
-        action: 'CREATE',
+      if (!user.isActive) {
+        return res.redirect('/?sso_error=inactive');
+      }
+
+      const { ticket, ticketHash } = generateSsoLoginTicket();
+      await storage.createSsoLoginTicket(user.id, ticketHash, new Date(Date.now() + SSO_LOGIN_TICKET_TTL_MS));
+
+      // The fragment keeps the ticket out of server logs and Referer headers
+      res.redirect(`/#sso_ticket=${encodeURIComponent(ticket)}`);
+    } catch (error) {
+      console.error('SSO callback error:', error);
+      res.redirect('/?sso_error=failed');
+    }
+  });
+
+  app.post('/api/auth/sso/exchange', async (req, res) => {
+    try {
+      const { ticket } = z.object({ ticket: z.string().min(1) }).parse(req.body);
+
+      const userId = await storage.consumeSsoLoginTicket(hashSsoLoginTicket(ticket));
+      if (!userId) {
+        return res.status(401).json({ message: 'Invalid or expired ticket' });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user || !user.isActive) {
+        return res.status(401).json({ message: 'Invalid or expired ticket' });
+      }
+
+      if (isUserLocked(user)) {
+        return res.status(423).json({ message: 'Account temporarily locked. Try again later.' });
+      }
+
+      // Local two-factor still applies on top of the provider's authentication
+      if (user.twoFactorEnabled) {
+        return res.json({
+          twoFactorRequired: true,
+          challengeToken: generateTwoFactorChallengeToken(user.id),
+        });
+      }
+
+      await completeLogin(req, res, user, 'SSO');
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('SSO exchange error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/auth/refresh', async (req, res) => {
+    try {
+      const refreshToken = req.body.refreshToken || readCookie(req, REFRESH_TOKEN_COOKIE);
+
+      if (!refreshToken) {
+        return res.status(400).json({ message: 'Refresh token is required' });
+      }
+
+      const payload = verifyRefreshToken(refreshToken);
+
+      if (!payload) {
+        return res.status(401).json({ message: 'Invalid refresh token' });
+      }
+
+      const session = await storage.getSessionByToken(refreshToken);
+
+      if (!session) {
+        return res.status(401).json({ message: 'Session not found or expired' });
+      }
+
+      if (!session.isActive) {
+        if (isRecentlyRotated(session)) {
+          return respondTokensAlreadyRefreshed(req, res);
+        }
+
+        // A rotated token being presented again means it leaked: revoke the whole session family
+        if (session.rotatedAt) {
+          await storage.deactivateSessionFamily(session.familyId);
+
+          await storage.createAuditLog({
+            userId: session.userId,
+            action: 'REFRESH_TOKEN_REUSE',
+            table: 'user_sessions',
+            recordId: session.id,
+            ipAddress: req.ip,
+            userAgent: req.get('User-Agent'),
+          });
+        }
+
+        return res.status(401).json({ message: 'Session not found or expired' });
+      }
+
+      if (session.expiresAt < new Date()) {
+        return res.status(401).json({ message: 'Session not found or expired' });
+      }
+
+      if (isSessionIdle(session, await getSessionIdleTimeoutMs())) {
+        await storage.deactivateSessionFamily(session.familyId);
+        return res.status(401).json({ message: 'Session expired due to inactivity' });
+      }
+
+      const user = await storage.getUser(payload.userId);
+
+      if (!user || !user.isActive) {
+        return res.status(401).json({ message: 'User not found or inactive' });
+      }
+
+      if (payload.impersonatorId && !await isImpersonatorAllowed(payload.impersonatorId)) {
+        return res.status(401).json({ message: 'Impersonation is no longer allowed' });
+      }
+
+      const tokens = generateTokens({
+        userId: user.id,
+        email: user.email,
+        profile: user.profile,
+        sessionId: session.familyId,
+        impersonatorId: payload.impersonatorId,
+      });
+
+      const rotatedSession = await storage.rotateSession(
+        session.id,
+        tokens.refreshToken,
+        new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      if (!rotatedSession) {
+        // Another request rotated this token first, or the session was closed meanwhile
+        const currentSession = await storage.getSessionByToken(refreshToken);
+        if (currentSession && isRecentlyRotated(currentSession)) {
+          return respondTokensAlreadyRefreshed(req, res);
+        }
+
+        await storage.deactivateSessionFamily(session.familyId);
+        return res.status(401).json({ message: 'Session not found or expired' });
+      }
+
+      setAuthCookies(req, res, tokens);
+
+      res.json({
+        ...getTokensForApiClient(req, tokens),
+        message: 'Tokens refreshed successfully',
+      });
+    } catch (error) {
+      console.error('Token refresh error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Works with an expired access token so the session can always be closed
+  app.post('/api/auth/logout', async (req, res) => {
+    try {
+      const refreshToken = req.body.refreshToken || readCookie(req, REFRESH_TOKEN_COOKIE);
+      const session = refreshToken ? await storage.getSessionByToken(refreshToken) : undefined;
+
+      clearAuthCookies(res);
+
+      if (session) {
+        await storage.deactivateSessionFamily(session.familyId);
+
+        // Log logout
+        await storage.createAuditLog({
+          userId: session.userId,
+          action: 'LOGOUT',
+          table: 'users',
+          recordId: session.userId,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      }
+
+      res.json({ message: 'Logged out successfully' });
+    } catch (error) {
+      console.error('Logout error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/auth/forgot-password', async (req, res) => {
+    try {
+      const { email } = req.body;
+
+      if (!email) {
+        return res.status(400).json({ message: 'Email is required' });
+      }
+
+      const windowStart = await getAuthAttemptWindowStart();
+      const maxRequests = await getConfigNumber('password_reset.max_requests');
+
+      const ipRequests = await storage.countRecentAuthAttempts({
+        kind: 'PASSWORD_RESET',
+        ipAddress: req.ip,
+        since: windowStart,
+      });
+
+      if (ipRequests >= maxRequests) {
+        return res.status(429).json({ message: 'Too many requests. Try again later.' });
+      }
+
+      const accountRequests = await storage.countRecentAuthAttempts({
+        kind: 'PASSWORD_RESET',
+        email,
+        since: windowStart,
+      });
+
+      const user = await storage.getUserByEmail(email);
+
+      await storage.createAuthAttempt({
+        kind: 'PASSWORD_RESET',
+        email,
+        userId: user?.id,
+        ipAddress: req.ip,
+      });
+
+      // Over the per-account limit we silently stop sending links, so the answer stays the same
+      if (!user || !user.isActive || accountRequests >= maxRequests) {
+        // Don't reveal if user exists
+        return res.json({ message: 'If the email exists, a recovery link has been sent' });
+      }
+
+      const { token, tokenHash } = generatePasswordResetToken();
+      const expiresAt = new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MS);
+
+      await storage.transaction(async (tx) => {
+        // Only the latest recovery link stays valid
+        await tx.invalidatePasswordResetTokens(user.id);
+        await tx.createPasswordResetToken(user.id, tokenHash, expiresAt, req.ip);
+
+        // Log password reset request
+        await tx.createAuditLog({
+          userId: user.id,
+          action: 'PASSWORD_RESET_REQUEST',
+          table: 'users',
+          recordId: user.id,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      });
+
+      const resetLink = `${getAppUrl(req)}/reset-password/${token}`;
+
+      await queueEmail('PASSWORD_RESET', { email: user.email, userId: user.id }, passwordResetEmail({
+        firstName: user.firstName,
+        resetLink,
+        expiresInMinutes: PASSWORD_RESET_TOKEN_TTL_MS / 60000,
+      }));
+
+      res.json({ message: 'If the email exists, a recovery link has been sent' });
+    } catch (error) {
+      console.error('Password reset error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/auth/reset-password', async (req, res) => {
+    try {
+      const resetPasswordSchema = z.object({
+        token: z.string().min(1),
+        newPassword: z.string().min(1),
+      });
+
+      const { token, newPassword } = resetPasswordSchema.parse(req.body);
+
+      const resetToken = await storage.getPasswordResetToken(hashPasswordResetToken(token));
+
+      if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+        return res.status(400).json({ message: 'Invalid or expired recovery link' });
+      }
+
+      const user = await storage.getUser(resetToken.userId);
+
+      if (!user || !user.isActive) {
+        return res.status(400).json({ message: 'Invalid or expired recovery link' });
+      }
+
+      // Checked before the token is consumed so the user can retry with the same link
+      const violations = await getPasswordPolicyViolations(newPassword, { email: user.email, userId: user.id });
+      if (violations.length > 0) {
+        return res.status(400).json({ message: 'Password does not meet the password policy', violations });
+      }
+
+      const hashedPassword = await hashPassword(newPassword);
+
+      // The token is only consumed together with the password change, so a failure leaves the link usable
+      const passwordReset = await storage.transaction(async (tx) => {
+        // Another request may have consumed the token since it was read
+        if (!await tx.markPasswordResetTokenUsed(resetToken.id)) {
+          return false;
+        }
+
+        await tx.updateUserPassword(user.id, hashedPassword, {
+          mustChangePassword: false,
+          updatedBy: user.id,
+        });
+
+        await tx.deactivateUserSessions(user.id);
+        await tx.resetFailedLoginAttempts(user.id);
+
+        // Log password reset
+        await tx.createAuditLog({
+          userId: user.id,
+          action: 'PASSWORD_RESET',
+          table: 'users',
+          recordId: user.id,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+
+        return true;
+      });
+
+      if (!passwordReset) {
+        return res.status(400).json({ message: 'Invalid or expired recovery link' });
+      }
+
+      await notifyAccountChange(user, ['password']);
+
+      res.json({ message: 'Password reset successfully' });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Reset password error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/auth/change-password', authenticate, async (req: AuthRequest, res) => {
+    try {
+      const changePasswordSchema = z.object({
+        currentPassword: z.string().min(1),
+        newPassword: z.string().min(1),
+      });
+
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const isValidPassword = await comparePassword(currentPassword, user.password);
+      if (!isValidPassword) {
+        return res.status(400).json({ message: 'Current password is incorrect' });
+      }
+
+      if (await comparePassword(newPassword, user.password)) {
+        return res.status(400).json({ message: 'New password must be different from the current password' });
+      }
+
+      const violations = await getPasswordPolicyViolations(newPassword, { email: user.email, userId: user.id });
+      if (violations.length > 0) {
+        return res.status(400).json({ message: 'Password does not meet the password policy', violations });
+      }
+
+      const hashedPassword = await hashPassword(newPassword);
+
+      await storage.transaction(async (tx) => {
+        await tx.updateUserPassword(user.id, hashedPassword, {
+          mustChangePassword: false,
+          updatedBy: user.id,
+        });
+
+        // Sign out every other device that knew the old password
+        await tx.deactivateUserSessions(user.id, req.user!.sessionId);
+
+        // Log password change
+        await tx.createAuditLog({
+          userId: user.id,
+          action: 'PASSWORD_CHANGE',
+          table: 'users',
+          recordId: user.id,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      });
+
+      await notifyAccountChange(user, ['password']);
+
+      res.json({ message: 'Password changed successfully' });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Change password error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // authenticate already refreshes the session's lastUsed timestamp
+  app.post('/api/auth/keep-alive', authenticate, async (req: AuthRequest, res) => {
+    res.json({ message: 'Session extended' });
+  });
+
+  // Public so the reset and change password forms can show the requirements
+  app.get('/api/auth/password-policy', async (req, res) => {
+    try {
+      const { minLength, requireUppercase, requireLowercase, requireDigit, requireSymbol } = await getPasswordPolicy();
+      res.json({ minLength, requireUppercase, requireLowercase, requireDigit, requireSymbol });
+    } catch (error) {
+      console.error('Get password policy error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/auth/me', authenticate, async (req: AuthRequest, res) => {
+    try {
+      const userWithGroups = await storage.getUserWithWorkGroups(req.user!.id);
+
+      if (!userWithGroups) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const passwordExpired = await isPasswordExpired(userWithGroups);
+      const impersonator = req.user!.impersonatorId ? await storage.getUser(req.user!.impersonatorId) : undefined;
+
+      res.json({
+        id: userWithGroups.id,
+        email: userWithGroups.email,
+        firstName: userWithGroups.firstName,
+        lastName: userWithGroups.lastName,
+        profile: userWithGroups.profile,
+        isActive: userWithGroups.isActive,
+        mustChangePassword: userWithGroups.mustChangePassword || passwordExpired,
+        passwordExpired,
+        twoFactorEnabled: userWithGroups.twoFactorEnabled,
+        twoFactorSetupRequired: await isTwoFactorSetupRequired(userWithGroups),
+        lastLogin: userWithGroups.lastLogin,
+        sessionIdleTimeoutMinutes: (await getSessionIdleTimeoutMs()) / 60000,
+        workGroups: userWithGroups.userWorkGroups.map(uwg => uwg.workGroup),
+        permissions: await getUserPermissions(userWithGroups),
+        impersonator: impersonator
+          ? { id: impersonator.id, email: impersonator.email, firstName: impersonator.firstName, lastName: impersonator.lastName }
+          : null,
+      });
+    } catch (error) {
+      console.error('Get user error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Registered before /:userId so "exit" is not taken for a user id
+  app.post('/api/auth/impersonate/exit', authenticate, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user!.impersonatorId) {
+        return res.status(400).json({ message: 'Not impersonating a user' });
+      }
+
+      const impersonator = await storage.getUser(req.user!.impersonatorId);
+      if (!impersonator || !impersonator.isActive) {
+        return res.status(401).json({ message: 'User not found or inactive' });
+      }
+
+      // Log impersonation end
+      const auditLog: InsertAuditLog = {
+        ...getAuditActor(req),
+        action: 'IMPERSONATION_END',
         table: 'users',
-        recordId: newUser.id,
-        newValues: { ...newUser, password: '[HIDDEN]', workGroupId: validatedWorkGroupId },
+        recordId: req.user!.id,
         ipAddress: req.ip,
         userAgent: req.get('User-Agent'),
-      });
+      };
+
+      if (!await switchSessionUser(req, res, impersonator, auditLog)) {
+        return res.status(401).json({ message: 'Session not found or expired' });
+      }
+    } catch (error) {
+      console.error('Exit impersonation error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Lets an administrator see the system exactly as another user does
+  app.post('/api/auth/impersonate/:userId', authenticate, requirePermission('impersonation', 'CREATE'), requireRecordInScope('users', 'userId'), async (req: AuthRequest, res) => {
+    try {
+      if (!req.user!.sessionId) {
+        return res.status(400).json({ message: 'Impersonation requires an interactive session' });
+      }
+
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      if (user.id === req.user!.id) {
+        return res.status(400).json({ message: 'Cannot impersonate yourself' });
+      }
+
+      if (!user.isActive) {
+        return res.status(400).json({ message: 'Cannot impersonate an inactive user' });
+      }
+
+      if (user.profile === 'ADMINISTRATOR') {
+        return res.status(403).json({ message: 'Administrators cannot be impersonated' });
+      }
 
-      // TODO: Send email with temporary credentials
-      console.log(`New user created - Email: ${newUser.email}, Password: ${temporaryPassword}`);
+      // Log impersonation start
+      const auditLog: InsertAuditLog = {
+        userId: req.user!.id,
+        impersonatedUserId: user.id,
+        action: 'IMPERSONATION_START',
+        table: 'users',
+        recordId: user.id,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      };
+
+      if (!await switchSessionUser(req, res, user, auditLog, req.user!.id)) {
+        return res.status(401).json({ message: 'Session not found or expired' });
+      }
+    } catch (error) {
+      console.error('Impersonate user error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/auth/2fa/setup', authenticate, async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      if (user.twoFactorEnabled) {
+        return res.status(400).json({ message: 'Two-factor authentication is already enabled' });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.setTwoFactorSecret(user.id, secret);
+
+      const otpauthUrl = buildOtpauthUrl(secret, user.email);
+      const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+
+      res.json({ secret, otpauthUrl, qrCodeDataUrl });
+    } catch (error) {
+      console.error('Two-factor setup error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/auth/2fa/enable', authenticate, async (req: AuthRequest, res) => {
+    try {
+      const { code } = z.object({ code: z.string().min(1) }).parse(req.body);
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      if (user.twoFactorEnabled || !user.twoFactorSecret) {
+        return res.status(400).json({ message: 'Two-factor setup has not been started' });
+      }
+
+      if (!verifyTotp(user.twoFactorSecret, code)) {
+        return res.status(400).json({ message: 'Invalid verification code' });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.transaction(async (tx) => {
+        await tx.enableTwoFactor(user.id, recoveryCodes.map(hashRecoveryCode));
+
+        // Log two-factor enrollment
+        await tx.createAuditLog({
+          userId: user.id,
+          action: 'TWO_FACTOR_ENABLE',
+          table: 'users',
+          recordId: user.id,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      });
+
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Two-factor enable error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/auth/2fa/disable', authenticate, async (req: AuthRequest, res) => {
+    try {
+      const { password } = z.object({ password: z.string().min(1) }).parse(req.body);
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      if (!(await comparePassword(password, user.password))) {
+        return res.status(400).json({ message: 'Current password is incorrect' });
+      }
+
+      if ((await getTwoFactorRequiredProfiles()).includes(user.profile)) {
+        return res.status(403).json({ message: 'Two-factor authentication is required for your profile' });
+      }
+
+      await storage.transaction(async (tx) => {
+        await tx.disableTwoFactor(user.id);
+
+        // Log two-factor removal
+        await tx.createAuditLog({
+          userId: user.id,
+          action: 'TWO_FACTOR_DISABLE',
+          table: 'users',
+          recordId: user.id,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      });
+
+      res.json({ message: 'Two-factor authentication disabled' });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Two-factor disable error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/auth/sessions', authenticate, async (req: AuthRequest, res) => {
+    try {
+      const sessions = await storage.getActiveSessions(req.user!.id);
+      res.json(sessions.map(session => toSessionResponse(session, req.user!.sessionId)));
+    } catch (error) {
+      console.error('Get sessions error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/auth/sessions/:id', authenticate, async (req: AuthRequest, res) => {
+    try {
+      const session = await storage.getSession(req.params.id);
+
+      if (!session || session.userId !== req.user!.id || !session.isActive) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
+
+      await storage.transaction(async (tx) => {
+        await tx.deactivateSessionFamily(session.familyId);
+
+        // Log session revocation
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'SESSION_REVOKE',
+          table: 'user_sessions',
+          recordId: session.id,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      });
+
+      if (session.familyId === req.user!.sessionId) {
+        clearAuthCookies(res);
+      }
+
+      res.json({ message: 'Session revoked successfully' });
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Dashboard routes
+  app.get('/api/dashboard/stats', authenticate, requirePermission('dashboard', 'VIEW'), async (req: AuthRequest, res) => {
+    try {
+      const stats = await storage.getDashboardStats();
+      res.json(stats);
+    } catch (error) {
+      console.error('Dashboard stats error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // User management routes
+  app.get('/api/users', authenticate, requirePermission('users', 'VIEW'), async (req: AuthRequest, res) => {
+    try {
+      const { search, profile, isActive } = req.query;
+
+      const users = await storage.getUsers({
+        search: search as string,
+        profile: profile as string,
+        isActive: isActive === 'true' ? true : isActive === 'false' ? false : undefined,
+      }, await getAccessScope(req.user!));
+
+      res.json(users.map(user => ({
+        ...user,
+        password: undefined,
+        twoFactorSecret: undefined,
+        twoFactorRecoveryCodes: undefined,
+      })));
+    } catch (error) {
+      console.error('Get users error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/users', authenticate, requirePermission('users', 'CREATE'), async (req: AuthRequest, res) => {
+    try {
+      const createUserSchema = insertUserSchema.extend({
+        workGroupIds: workGroupIdsSchema.default([]),
+      });
+
+      const { workGroupIds, ...validatedUserData } = createUserSchema.parse(req.body);
+
+      if (!await areWorkGroupsAssignable(req, workGroupIds)) {
+        return res.status(404).json({ message: 'Work group not found' });
+      }
+
+      // Check if email already exists
+      const existingUser = await storage.getUserByEmail(validatedUserData.email);
+      if (existingUser) {
+        return res.status(400).json({ message: 'Email already exists' });
+      }
+
+      // Generate temporary password
+      const temporaryPassword = await generateTemporaryPassword();
+      const hashedPassword = await hashPassword(temporaryPassword);
+
+      const newUser = await storage.transaction(async (tx) => {
+        const createdUser = await tx.createUser({
+          ...validatedUserData,
+          password: hashedPassword,
+          temporaryPassword: true,
+          mustChangePassword: true,
+          createdBy: req.user!.id,
+        });
+
+        await tx.addPasswordHistory(createdUser.id, hashedPassword);
+
+        for (const workGroupId of workGroupIds) {
+          await tx.addUserToWorkGroup(createdUser.id, workGroupId);
+          await logWorkGroupMembershipChanges(tx, req, 'ADD_MEMBER', workGroupId, [createdUser.id]);
+        }
+
+        // Log user creation
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'CREATE',
+          table: 'users',
+          recordId: createdUser.id,
+          newValues: { ...createdUser, password: '[HIDDEN]', twoFactorSecret: '[HIDDEN]', twoFactorRecoveryCodes: '[HIDDEN]', workGroupIds },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+
+        return createdUser;
+      });
+
+      await queueEmail('WELCOME', { email: newUser.email, userId: newUser.id }, welcomeEmail({
+        firstName: newUser.firstName,
+        email: newUser.email,
+        temporaryPassword,
+        loginUrl: getAppUrl(req),
+      }));
+
+      res.status(201).json({ 
+        ...newUser, 
+        password: undefined,
+        twoFactorSecret: undefined,
+        twoFactorRecoveryCodes: undefined,
+        temporaryPassword,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Create user error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/users/:id', authenticate, requirePermission('users', 'VIEW'), requireRecordInScope('users'), async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUserWithWorkGroups(req.params.id);
+
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      res.json({
+        ...user,
+        password: undefined,
+        twoFactorSecret: undefined,
+        twoFactorRecoveryCodes: undefined,
+      });
+    } catch (error) {
+      console.error('Get user error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/users/:id', authenticate, requirePermission('users', 'EDIT'), requireRecordInScope('users'), async (req: AuthRequest, res) => {
+    try {
+      // Passwords only change through the password flows, which enforce the policy and keep the history
+      const updateUserSchema = insertUserSchema.omit({ password: true }).partial().extend({
+        workGroupIds: workGroupIdsSchema.optional(),
+      });
+
+      const { workGroupIds, ...validatedUserData } = updateUserSchema.parse(req.body);
+
+      // Memberships the user already has are kept even when the caller cannot assign them
+      const currentWorkGroupIds = await storage.getUserWorkGroupIds(req.params.id);
+      if (workGroupIds && !await areWorkGroupsAssignable(req, workGroupIds.filter(id => !currentWorkGroupIds.includes(id)))) {
+        return res.status(404).json({ message: 'Work group not found' });
+      }
+
+      const existingUser = await storage.getUser(req.params.id);
+      if (!existingUser) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      // If email is being changed, check for duplicates
+      if (validatedUserData.email && validatedUserData.email !== existingUser.email) {
+        const emailExists = await storage.getUserByEmail(validatedUserData.email);
+        if (emailExists) {
+          return res.status(400).json({ message: 'Email already exists' });
+        }
+      }
+
+      // Update work group memberships, leaving groups outside the caller's scope untouched
+      let workGroupChanges: { added: string[]; removed: string[] } | undefined;
+      if (workGroupIds) {
+        const scope = await getAccessScope(req.user!);
+
+        workGroupChanges = {
+          added: workGroupIds.filter(id => !currentWorkGroupIds.includes(id)),
+          removed: currentWorkGroupIds.filter(id =>
+            !workGroupIds.includes(id) && (scope.workGroupIds === null || scope.workGroupIds.includes(id))
+          ),
+        };
+      }
+
+      const updatedUser = await storage.transaction(async (tx) => {
+        const user = await tx.updateUser(req.params.id, {
+          ...validatedUserData,
+          updatedBy: req.user!.id,
+        });
+
+        for (const workGroupId of workGroupChanges?.added ?? []) {
+          await tx.addUserToWorkGroup(req.params.id, workGroupId);
+          await logWorkGroupMembershipChanges(tx, req, 'ADD_MEMBER', workGroupId, [req.params.id]);
+        }
+        for (const workGroupId of workGroupChanges?.removed ?? []) {
+          await tx.removeUserFromWorkGroup(req.params.id, workGroupId);
+          await logWorkGroupMembershipChanges(tx, req, 'REMOVE_MEMBER', workGroupId, [req.params.id]);
+        }
+
+        // Log user update
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'UPDATE',
+          table: 'users',
+          recordId: req.params.id,
+          oldValues: { ...existingUser, password: '[HIDDEN]', twoFactorSecret: '[HIDDEN]', twoFactorRecoveryCodes: '[HIDDEN]' },
+          newValues: { ...user, password: '[HIDDEN]', twoFactorSecret: '[HIDDEN]', twoFactorRecoveryCodes: '[HIDDEN]', workGroupChanges },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+
+        return user;
+      });
+
+      const changes = Object.keys(validatedUserData).filter(
+        (key) => key !== 'updatedBy' &&
+          String(existingUser[key as keyof User]) !== String(updatedUser[key as keyof User])
+      );
+      if (workGroupChanges && (workGroupChanges.added.length > 0 || workGroupChanges.removed.length > 0)) {
+        changes.push('workGroupIds');
+      }
+
+      await notifyAccountChange(updatedUser, changes, existingUser.email);
+
+      res.json({
+        ...updatedUser,
+        password: undefined,
+        twoFactorSecret: undefined,
+        twoFactorRecoveryCodes: undefined,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Update user error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/users/:id', authenticate, requirePermission('users', 'DELETE'), requireRecordInScope('users'), async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      await storage.transaction(async (tx) => {
+        await tx.deactivateUser(req.params.id);
+
+        // Log user deactivation
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'DELETE',
+          table: 'users',
+          recordId: req.params.id,
+          oldValues: { ...user, password: '[HIDDEN]', twoFactorSecret: '[HIDDEN]', twoFactorRecoveryCodes: '[HIDDEN]' },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      });
+
+      res.json({ message: 'User deactivated successfully' });
+    } catch (error) {
+      console.error('Delete user error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Lets a user who lost their authenticator and recovery codes enroll again
+  app.post('/api/users/:id/2fa/reset', authenticate, requirePermission('user-credentials', 'EDIT'), requireRecordInScope('users'), async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      await storage.transaction(async (tx) => {
+        await tx.disableTwoFactor(user.id);
+        await tx.deactivateUserSessions(user.id);
+
+        // Log two-factor reset
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'TWO_FACTOR_RESET',
+          table: 'users',
+          recordId: user.id,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      });
+
+      await notifyAccountChange(user, ['twoFactor']);
+
+      res.json({ message: 'Two-factor authentication reset successfully' });
+    } catch (error) {
+      console.error('Reset two-factor error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Issues a new temporary password that the user must replace on their next login
+  app.post('/api/users/:id/reset-password', authenticate, requirePermission('user-credentials', 'EDIT'), requireRecordInScope('users'), async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const temporaryPassword = await generateTemporaryPassword();
+      const hashedPassword = await hashPassword(temporaryPassword);
+
+      await storage.transaction(async (tx) => {
+        await tx.updateUserPassword(user.id, hashedPassword, {
+          mustChangePassword: true,
+          updatedBy: req.user!.id,
+        });
+
+        await tx.deactivateUserSessions(user.id);
+        await tx.resetFailedLoginAttempts(user.id);
+
+        // Log admin password reset
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'ADMIN_PASSWORD_RESET',
+          table: 'users',
+          recordId: user.id,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      });
+
+      await notifyAccountChange(user, ['password']);
+
+      res.json({ temporaryPassword });
+    } catch (error) {
+      console.error('Admin reset password error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Assigns a definitive password, so the user is not asked to change it
+  app.post('/api/users/:id/set-password', authenticate, requirePermission('user-credentials', 'EDIT'), requireRecordInScope('users'), async (req: AuthRequest, res) => {
+    try {
+      const setPasswordSchema = z.object({
+        newPassword: z.string().min(1),
+      });
+
+      const { newPassword } = setPasswordSchema.parse(req.body);
+
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const violations = await getPasswordPolicyViolations(newPassword, { email: user.email, userId: user.id });
+      if (violations.length > 0) {
+        return res.status(400).json({ message: 'Password does not meet the password policy', violations });
+      }
+
+      const hashedPassword = await hashPassword(newPassword);
+
+      await storage.transaction(async (tx) => {
+        await tx.updateUserPassword(user.id, hashedPassword, {
+          mustChangePassword: false,
+          updatedBy: req.user!.id,
+        });
+
+        await tx.deactivateUserSessions(user.id);
+        await tx.resetFailedLoginAttempts(user.id);
+
+        // Log admin password assignment
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'ADMIN_PASSWORD_SET',
+          table: 'users',
+          recordId: user.id,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      });
+
+      await notifyAccountChange(user, ['password']);
+
+      res.json({ message: 'Password set successfully' });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Admin set password error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/users/:id/unlock', authenticate, requirePermission('users', 'EDIT'), requireRecordInScope('users'), async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      await storage.transaction(async (tx) => {
+        await tx.resetFailedLoginAttempts(user.id);
+
+        // Log account unlock
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'ACCOUNT_UNLOCK',
+          table: 'users',
+          recordId: user.id,
+          oldValues: { lockedUntil: user.lockedUntil, failedLoginAttempts: user.failedLoginAttempts },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      });
+
+      res.json({ message: 'User unlocked successfully' });
+    } catch (error) {
+      console.error('Unlock user error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/users/:id/sessions', authenticate, requirePermission('user-sessions', 'VIEW'), requireRecordInScope('users'), async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const sessions = await storage.getActiveSessions(user.id);
+      res.json(sessions.map(session => toSessionResponse(session, req.user!.sessionId)));
+    } catch (error) {
+      console.error('Get user sessions error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/users/:id/sessions', authenticate, requirePermission('user-sessions', 'DELETE'), requireRecordInScope('users'), async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      await storage.transaction(async (tx) => {
+        await tx.deactivateUserSessions(user.id);
+
+        // Log revocation of every session
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'SESSION_REVOKE_ALL',
+          table: 'user_sessions',
+          recordId: user.id,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      });
+
+      res.json({ message: 'Sessions revoked successfully' });
+    } catch (error) {
+      console.error('Revoke user sessions error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/users/:id/sessions/:sessionId', authenticate, requirePermission('user-sessions', 'DELETE'), requireRecordInScope('users'), async (req: AuthRequest, res) => {
+    try {
+      const session = await storage.getSession(req.params.sessionId);
+
+      if (!session || session.userId !== req.params.id || !session.isActive) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
+
+      await storage.transaction(async (tx) => {
+        await tx.deactivateSessionFamily(session.familyId);
+
+        // Log session revocation
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'SESSION_REVOKE',
+          table: 'user_sessions',
+          recordId: session.id,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      });
+
+      res.json({ message: 'Session revoked successfully' });
+    } catch (error) {
+      console.error('Revoke user session error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Work Group routes
+  app.get('/api/work-groups', authenticate, requirePermission('work-groups', 'VIEW'), async (req: AuthRequest, res) => {
+    try {
+      const { search, isActive } = req.query;
+
+      const workGroups = await storage.getWorkGroups({
+        search: search as string,
+        isActive: isActive === 'true' ? true : isActive === 'false' ? false : undefined,
+      }, await getAccessScope(req.user!));
+
+      res.json(workGroups);
+    } catch (error) {
+      console.error('Get work groups error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/work-groups', authenticate, requirePermission('work-groups', 'CREATE'), async (req: AuthRequest, res) => {
+    try {
+      const workGroupData = insertWorkGroupSchema.parse(req.body);
+
+      // Check if name already exists
+      const existingGroup = await storage.getWorkGroupByName(workGroupData.name);
+      if (existingGroup) {
+        return res.status(400).json({ message: 'Work group name already exists' });
+      }
+
+      const newWorkGroup = await storage.transaction(async (tx) => {
+        const workGroup = await tx.createWorkGroup({
+          ...workGroupData,
+          createdBy: req.user!.id,
+        });
+
+        // Log work group creation
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'CREATE',
+          table: 'work_groups',
+          recordId: workGroup.id,
+          newValues: workGroup,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+
+        return workGroup;
+      });
+
+      res.status(201).json(newWorkGroup);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Create work group error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/work-groups/:id', authenticate, requirePermission('work-groups', 'VIEW'), requireRecordInScope('work-groups'), async (req: AuthRequest, res) => {
+    try {
+      const workGroup = await storage.getWorkGroupWithUsers(req.params.id);
+
+      if (!workGroup) {
+        return res.status(404).json({ message: 'Work group not found' });
+      }
+
+      res.json(workGroup);
+    } catch (error) {
+      console.error('Get work group error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/work-groups/:id', authenticate, requirePermission('work-groups', 'EDIT'), requireRecordInScope('work-groups'), async (req: AuthRequest, res) => {
+    try {
+      const workGroupData = insertWorkGroupSchema.partial().parse(req.body);
+
+      const existingGroup = await storage.getWorkGroup(req.params.id);
+      if (!existingGroup) {
+        return res.status(404).json({ message: 'Work group not found' });
+      }
+
+      // If name is being changed, check for duplicates
+      if (workGroupData.name && workGroupData.name !== existingGroup.name) {
+        const nameExists = await storage.getWorkGroupByName(workGroupData.name);
+        if (nameExists) {
+          return res.status(400).json({ message: 'Work group name already exists' });
+        }
+      }
+
+      const updatedWorkGroup = await storage.transaction(async (tx) => {
+        const workGroup = await tx.updateWorkGroup(req.params.id, {
+          ...workGroupData,
+          updatedBy: req.user!.id,
+        });
+
+        // Log work group update
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'UPDATE',
+          table: 'work_groups',
+          recordId: req.params.id,
+          oldValues: existingGroup,
+          newValues: workGroup,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+
+        return workGroup;
+      });
+
+      res.json(updatedWorkGroup);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Update work group error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/work-groups/:id', authenticate, requirePermission('work-groups', 'DELETE'), requireRecordInScope('work-groups'), async (req: AuthRequest, res) => {
+    try {
+      const workGroup = await storage.getWorkGroup(req.params.id);
+      if (!workGroup) {
+        return res.status(404).json({ message: 'Work group not found' });
+      }
+
+      await storage.transaction(async (tx) => {
+        await tx.deactivateWorkGroup(req.params.id);
+
+        // Log work group deactivation
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'DELETE',
+          table: 'work_groups',
+          recordId: req.params.id,
+          oldValues: workGroup,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      });
+
+      res.json({ message: 'Work group deactivated successfully' });
+    } catch (error) {
+      console.error('Delete work group error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/work-groups/:id/members', authenticate, requirePermission('work-groups', 'EDIT'), requireRecordInScope('work-groups'), async (req: AuthRequest, res) => {
+    try {
+      const { userIds } = workGroupMembersSchema.parse(req.body);
+
+      const workGroup = await storage.getWorkGroup(req.params.id);
+      if (!workGroup) {
+        return res.status(404).json({ message: 'Work group not found' });
+      }
+
+      if (!await areUsersInScope(req, userIds)) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const added = await storage.transaction(async (tx) => {
+        const addedUserIds = await tx.addUsersToWorkGroup(workGroup.id, userIds);
+
+        // Log membership changes
+        await logWorkGroupMembershipChanges(tx, req, 'ADD_MEMBER', workGroup.id, addedUserIds);
+
+        return addedUserIds;
+      });
+
+      res.json({ added });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Add work group members error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/work-groups/:id/members', authenticate, requirePermission('work-groups', 'EDIT'), requireRecordInScope('work-groups'), async (req: AuthRequest, res) => {
+    try {
+      const { userIds } = workGroupMembersSchema.parse(req.body);
+
+      const workGroup = await storage.getWorkGroup(req.params.id);
+      if (!workGroup) {
+        return res.status(404).json({ message: 'Work group not found' });
+      }
+
+      if (!await areUsersInScope(req, userIds)) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const removed = await storage.transaction(async (tx) => {
+        const removedUserIds = await tx.removeUsersFromWorkGroup(workGroup.id, userIds);
+
+        // Log membership changes
+        await logWorkGroupMembershipChanges(tx, req, 'REMOVE_MEMBER', workGroup.id, removedUserIds);
+
+        return removedUserIds;
+      });
+
+      res.json({ removed });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Validation error', errors: error.errors });
+      }
+      console.error('Remove work group members error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Entity routes
+  app.get('/api/entities', authenticate, requirePermission('entities', 'VIEW'), async (req: AuthRequest, res) => {
+    try {
+      const { search, type, isActive } = req.query;
+      const canViewSensitive = await canViewSensitiveData(req.user!);
+
+      const entities = await storage.getEntities({
+        search: search as string,
+        type: type as string,
+        isActive: isActive === 'true' ? true : isActive === 'false' ? false : undefined,
+        exactDocumentSearch: !canViewSensitive,
+      });
+
+      res.json(canViewSensitive ? entities : entities.map(maskEntity));
+    } catch (error) {
+      console.error('Get entities error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/entities', authenticate, requirePermission('entities', 'CREATE'), async (req: AuthRequest, res) => {
+    try {
+      const { entity, addresses, contacts } = req.body;
+
+      const entityData = insertEntitySchema.parse(entity);
+
+      // Check if document already exists
+      const existingEntity = await storage.getEntityByDocument(entityData.document);
+      if (existingEntity) {
+        return res.status(400).json({ message: 'Document already exists' });
+      }
+
+      const newEntity = await storage.transaction(async (tx) => {
+        const createdEntity = await tx.createEntity({
+          ...entityData,
+          createdBy: req.user!.id,
+        });
+
+        // Add addresses if provided
+        if (addresses && addresses.length > 0) {
+          for (const address of addresses) {
+            await tx.createEntityAddress({
+              ...address,
+              entityId: createdEntity.id,
+            });
+          }
+        }
+
+        // Add contacts if provided
+        if (contacts && contacts.length > 0) {
+          for (const contact of contacts) {
+            await tx.createEntityContact({
+              ...contact,
+              entityId: createdEntity.id,
+            });
+          }
+        }
 
-      res.status(201).json({ 
-        ...newUser, 
-        password: undefined,
-        temporaryPassword,
+        // Log entity creation
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'CREATE',
+          table: 'entities',
+          recordId: createdEntity.id,
+          newValues: createdEntity,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+
+        return createdEntity;
       });
+
+      const entityWithDetails = await storage.getEntityWithDetails(newEntity.id);
+      res.status(201).json(await toEntityResponse(req, entityWithDetails!));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Validation error', errors: error.errors });
       }
-      console.error('Create user error:', error);
+      console.error('Create entity error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.get('/api/users/:id', authenticate, async (req: AuthRequest, res) => {
+  app.get('/api/entities/:id', authenticate, requirePermission('entities', 'VIEW'), async (req: AuthRequest, res) => {
     try {
-      const user = await storage.getUserWithWorkGroups(req.params.id);
+      const entity = await storage.getEntityWithDetails(req.params.id);
 
-      if (!user) {
-        return res.status(404).json({ message: 'User not found' });
+      if (!entity) {
+        return res.status(404).json({ message: 'Entity not found' });
       }
 
-      res.json({
-        ...user,
-        password: undefined,
-      });
+      res.json(await toEntityResponse(req, entity));
     } catch (error) {
-      console.error('Get user error:', error);
+      console.error('Get entity error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.put('/api/users/:id', authenticate, authorize(['ADMINISTRATOR', 'MANAGER']), async (req: AuthRequest, res) => {
+  // Each reveal is audited with the names of the fields shown, never their values
+  app.post('/api/entities/:id/reveal', authenticate, requirePermission('entities', 'VIEW'), requirePermission('sensitive-data', 'REVEAL'), async (req: AuthRequest, res) => {
     try {
-      const { workGroupId, ...userData } = req.body;
-      const validatedUserData = insertUserSchema.partial().parse(userData);
+      const entity = await storage.getEntityWithDetails(req.params.id);
 
-      const existingUser = await storage.getUser(req.params.id);
-      if (!existingUser) {
-        return res.status(404).json({ message: 'User not found' });
+      if (!entity) {
+        return res.status(404).json({ message: 'Entity not found' });
       }
 
-      // If email is being changed, check for duplicates
-      if (validatedUserData.email && validatedUserData.email !== existingUser.email) {
-        const emailExists = await storage.getUserByEmail(validatedUserData.email);
-        if (emailExists) {
-          return res.status(400).json({ message: 'Email already exists' });
-        }
+      // Log sensitive data reveal
+      await storage.createAuditLog({
+        ...getAuditActor(req),
+        action: 'REVEAL',
+        table: 'entities',
+        recordId: entity.id,
+        newValues: { fields: getSensitiveFields(entity) },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(entity);
+    } catch (error) {
+      console.error('Reveal entity error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/entities/:id', authenticate, requirePermission('entities', 'EDIT'), async (req: AuthRequest, res) => {
+    try {
+      const existingEntity = await storage.getEntityWithDetails(req.params.id);
+      if (!existingEntity) {
+        return res.status(404).json({ message: 'Entity not found' });
       }
 
-      const updatedUser = await storage.updateUser(req.params.id, {
-        ...validatedUserData,
-        updatedBy: req.user!.id,
-      });
+      let entityData = insertEntitySchema.partial().parse(req.body.entity ?? {});
+      let details = entityDetailsSchema.parse({ addresses: req.body.addresses, contacts: req.body.contacts });
 
-      // Update work group association
-      if (workGroupId !== undefined) {
-        // Remove user from all current work groups
-        const currentUser = await storage.getUserWithWorkGroups(req.params.id);
-        if (currentUser?.userWorkGroups) {
-          for (const userGroup of currentUser.userWorkGroups) {
-            await storage.removeUserFromWorkGroup(req.params.id, userGroup.workGroup.id);
-          }
-        }
+      if (details.addresses?.some(address => address.id && !existingEntity.addresses.some(existing => existing.id === address.id))) {
+        return res.status(400).json({ message: 'Address not found' });
+      }
+      if (details.contacts?.some(contact => contact.id && !existingEntity.contacts.some(existing => existing.id === contact.id))) {
+        return res.status(400).json({ message: 'Contact not found' });
+      }
 
-        // Add user to new work group if specified
-        if (workGroupId && workGroupId.trim() !== "") {
-          await storage.addUserToWorkGroup(req.params.id, workGroupId);
+      if (!await canViewSensitiveData(req.user!)) {
+        ({ entity: entityData, details } = restoreMaskedEntity(existingEntity, entityData, details));
+      }
+
+      // If document is being changed, check for duplicates
+      if (entityData.document && entityData.document !== existingEntity.document) {
+        const documentExists = await storage.getEntityByDocument(entityData.document);
+        if (documentExists) {
+          return res.status(400).json({ message: 'Document already exists' });
         }
       }
 
-      // Log user update
-      await storage.createAuditLog({
-        userId: req.user!.id,
-        action: 'UPDATE',
-        table: 'users',
-        recordId: req.params.id,
-        oldValues: { ...existingUser, password: '[HIDDEN]' },
-        newValues: { ...updatedUser, password: '[HIDDEN]', workGroupId },
-        ipAddress: req.ip,
-        userAgent: req.get('User-Agent'),
-      });
+      // Saves the entity, its addresses and contacts and one audit entry per changed record
+      await storage.updateEntityWithDetails(
+        req.params.id,
+        { ...entityData, updatedBy: req.user!.id },
+        details,
+        { ...getAuditActor(req), ipAddress: req.ip, userAgent: req.get('User-Agent') },
+      );
 
-      res.json({
-        ...updatedUser,
-        password: undefined,
-      });
+      const entityWithDetails = await storage.getEntityWithDetails(req.params.id);
+      res.json(await toEntityResponse(req, entityWithDetails!));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Validation error', errors: error.errors });
       }
-      console.error('Update user error:', error);
+      console.error('Update entity error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.delete('/api/users/:id', authenticate, authorize(['ADMINISTRATOR']), async (req: AuthRequest, res) => {
+  app.delete('/api/entities/:id', authenticate, requirePermission('entities', 'DELETE'), async (req: AuthRequest, res) => {
     try {
-      const user = await storage.getUser(req.params.id);
-      if (!user) {
-        return res.status(404).json({ message: 'User not found' });
+      const entity = await storage.getEntity(req.params.id);
+      if (!entity) {
+        return res.status(404).json({ message: 'Entity not found' });
       }
 
-      await storage.deactivateUser(req.params.id);
-
-      // Log user deactivation
-      await storage.createAuditLog({
-        userId: req.user!.id,
-        action: 'DELETE',
-        table: 'users',
-        recordId: req.params.id,
-        oldValues: { ...user, password: '[HIDDEN]' },
-        ipAddress: req.ip,
-        userAgent: req.get('User-Agent'),
+      await storage.transaction(async (tx) => {
+        await tx.deactivateEntity(req.params.id);
+
+        // Log entity deactivation
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'DELETE',
+          table: 'entities',
+          recordId: req.params.id,
+          oldValues: entity,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
       });
 
-      res.json({ message: 'User deactivated successfully' });
+      res.json({ message: 'Entity deactivated successfully' });
     } catch (error) {
-      console.error('Delete user error:', error);
+      console.error('Delete entity error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  // Work Group routes
-  app.get('/api/work-groups', authenticate, async (req: AuthRequest, res) => {
+  // Permission routes
+  app.get('/api/permissions', authenticate, requirePermission('permissions', 'VIEW'), async (req: AuthRequest, res) => {
     try {
-      const { search, isActive } = req.query;
-
-      const workGroups = await storage.getWorkGroups({
-        search: search as string,
-        isActive: isActive === 'true' ? true : isActive === 'false' ? false : undefined,
-      });
-
-      res.json(workGroups);
+      res.json(await getPermissionMatrix());
     } catch (error) {
-      console.error('Get work groups error:', error);
+      console.error('Get permissions error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.post('/api/work-groups', authenticate, authorize(['ADMINISTRATOR', 'MANAGER']), async (req: AuthRequest, res) => {
+  app.put('/api/permissions', authenticate, requirePermission('permissions', 'EDIT'), async (req: AuthRequest, res) => {
     try {
-      const workGroupData = insertWorkGroupSchema.parse(req.body);
+      const updatePermissionsSchema = z.object({
+        changes: z.array(z.object({
+          profile: z.enum(userProfiles),
+          permission: permissionSchema,
+          granted: z.boolean(),
+        })).min(1),
+      });
 
-      // Check if name already exists
-      const existingGroup = await storage.getWorkGroupByName(workGroupData.name);
-      if (existingGroup) {
-        return res.status(400).json({ message: 'Work group name already exists' });
+      const { changes } = updatePermissionsSchema.parse(req.body);
+
+      if (changes.some(change => change.profile === 'ADMINISTRATOR')) {
+        return res.status(400).json({ message: 'Administrator permissions cannot be changed' });
       }
 
-      const newWorkGroup = await storage.createWorkGroup({
-        ...workGroupData,
-        createdBy: req.user!.id,
-      });
+      await storage.transaction(async (tx) => {
+        for (const change of changes) {
+          const [module, action] = splitPermission(change.permission);
 
-      // Log work group creation
-      await storage.createAuditLog({
-        userId: req.user!.id,
-        action: 'CREATE',
-        table: 'work_groups',
-        recordId: newWorkGroup.id,
-        newValues: newWorkGroup,
-        ipAddress: req.ip,
-        userAgent: req.get('User-Agent'),
+          if (change.granted) {
+            await tx.createProfilePermissions([{ profile: change.profile, module, action, createdBy: req.user!.id }]);
+          } else {
+            await tx.deleteProfilePermission(change.profile, module, action);
+          }
+
+          // Log permission change
+          await tx.createAuditLog({
+            ...getAuditActor(req),
+            action: change.granted ? 'PERMISSION_GRANT' : 'PERMISSION_REVOKE',
+            table: 'profile_permissions',
+            newValues: { profile: change.profile, permission: change.permission },
+            ipAddress: req.ip,
+            userAgent: req.get('User-Agent'),
+          });
+        }
       });
 
-      res.status(201).json(newWorkGroup);
+      clearPermissionCache();
+
+      res.json(await getPermissionMatrix());
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Validation error', errors: error.errors });
       }
-      console.error('Create work group error:', error);
+      console.error('Update permissions error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.get('/api/work-groups/:id', authenticate, async (req: AuthRequest, res) => {
+  app.get('/api/work-groups/:id/permissions', authenticate, requirePermission('permissions', 'VIEW'), requireRecordInScope('work-groups'), async (req: AuthRequest, res) => {
     try {
-      const workGroup = await storage.getWorkGroupWithUsers(req.params.id);
-
+      const workGroup = await storage.getWorkGroup(req.params.id);
       if (!workGroup) {
         return res.status(404).json({ message: 'Work group not found' });
       }
 
-      res.json(workGroup);
+      res.json(await getWorkGroupPermissionOverrides(workGroup.id));
     } catch (error) {
-      console.error('Get work group error:', error);
+      console.error('Get work group permissions error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.put('/api/work-groups/:id', authenticate, authorize(['ADMINISTRATOR', 'MANAGER']), async (req: AuthRequest, res) => {
+  // A null effect removes the override, so the profile matrix applies again
+  app.put('/api/work-groups/:id/permissions', authenticate, requirePermission('permissions', 'EDIT'), requireRecordInScope('work-groups'), async (req: AuthRequest, res) => {
     try {
-      const workGroupData = insertWorkGroupSchema.partial().parse(req.body);
+      const updateOverridesSchema = z.object({
+        changes: z.array(z.object({
+          profile: z.enum(userProfiles),
+          permission: permissionSchema,
+          effect: z.enum(permissionOverrideEffects).nullable(),
+        })).min(1),
+      });
 
-      const existingGroup = await storage.getWorkGroup(req.params.id);
-      if (!existingGroup) {
+      const { changes } = updateOverridesSchema.parse(req.body);
+
+      const workGroup = await storage.getWorkGroup(req.params.id);
+      if (!workGroup) {
         return res.status(404).json({ message: 'Work group not found' });
       }
 
-      // If name is being changed, check for duplicates
-      if (workGroupData.name && workGroupData.name !== existingGroup.name) {
-        const nameExists = await storage.getWorkGroupByName(workGroupData.name);
-        if (nameExists) {
-          return res.status(400).json({ message: 'Work group name already exists' });
-        }
+      if (changes.some(change => change.profile === 'ADMINISTRATOR')) {
+        return res.status(400).json({ message: 'Administrator permissions cannot be changed' });
       }
 
-      const updatedWorkGroup = await storage.updateWorkGroup(req.params.id, {
-        ...workGroupData,
-        updatedBy: req.user!.id,
-      });
+      const existingOverrides = await getWorkGroupPermissionOverrides(workGroup.id);
+
+      await storage.transaction(async (tx) => {
+        for (const change of changes) {
+          const [module, action] = splitPermission(change.permission);
+          const existingOverride = existingOverrides.find(
+            override => override.profile === change.profile && override.permission === change.permission
+          );
+
+          if (change.effect) {
+            await tx.setWorkGroupPermission({
+              groupId: workGroup.id,
+              profile: change.profile,
+              module,
+              action,
+              effect: change.effect,
+              createdBy: req.user!.id,
+            });
+          } else {
+            await tx.deleteWorkGroupPermission(workGroup.id, change.profile, module, action);
+          }
 
-      // Log work group update
-      await storage.createAuditLog({
-        userId: req.user!.id,
-        action: 'UPDATE',
-        table: 'work_groups',
-        recordId: req.params.id,
-        oldValues: existingGroup,
-        newValues: updatedWorkGroup,
-        ipAddress: req.ip,
-        userAgent: req.get('User-Agent'),
+          // Log work group permission change
+          await tx.createAuditLog({
+            ...getAuditActor(req),
+            action: 'WORK_GROUP_PERMISSION_CHANGE',
+            table: 'work_group_permissions',
+            recordId: workGroup.id,
+            oldValues: { profile: change.profile, permission: change.permission, effect: existingOverride?.effect ?? null },
+            newValues: { profile: change.profile, permission: change.permission, effect: change.effect },
+            ipAddress: req.ip,
+            userAgent: req.get('User-Agent'),
+          });
+        }
       });
 
-      res.json(updatedWorkGroup);
+      clearPermissionCache();
+
+      res.json(await getWorkGroupPermissionOverrides(workGroup.id));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Validation error', errors: error.errors });
       }
-      console.error('Update work group error:', error);
+      console.error('Update work group permissions error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.delete('/api/work-groups/:id', authenticate, authorize(['ADMINISTRATOR']), async (req: AuthRequest, res) => {
+  // Delegation routes
+  app.get('/api/delegations', authenticate, requirePermission('delegations', 'VIEW'), async (req: AuthRequest, res) => {
     try {
-      const workGroup = await storage.getWorkGroup(req.params.id);
-      if (!workGroup) {
-        return res.status(404).json({ message: 'Work group not found' });
+      const scope = await getAccessScope(req.user!);
+      let delegations = await storage.getDelegations();
+
+      // Scoped users only see delegations involving users they can reach
+      if (scope.workGroupIds !== null) {
+        const visibleUserIds = (await storage.getUsers(undefined, scope)).map(user => user.id);
+        delegations = delegations.filter(delegation =>
+          visibleUserIds.includes(delegation.fromUserId) || visibleUserIds.includes(delegation.toUserId)
+        );
       }
 
-      await storage.deactivateWorkGroup(req.params.id);
-
-      // Log work group deactivation
-      await storage.createAuditLog({
-        userId: req.user!.id,
-        action: 'DELETE',
-        table: 'work_groups',
-        recordId: req.params.id,
-        oldValues: workGroup,
-        ipAddress: req.ip,
-        userAgent: req.get('User-Agent'),
-      });
-
-      res.json({ message: 'Work group deactivated successfully' });
+      res.json(delegations.map(toDelegationResponse));
     } catch (error) {
-      console.error('Delete work group error:', error);
+      console.error('Get delegations error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  // Entity routes
-  app.get('/api/entities', authenticate, async (req: AuthRequest, res) => {
+  // The permissions a user can lend, used to build the delegation form
+  app.get('/api/users/:id/permissions', authenticate, requirePermission('delegations', 'CREATE'), requireRecordInScope('users'), async (req: AuthRequest, res) => {
     try {
-      const { search, type, isActive } = req.query;
-
-      const entities = await storage.getEntities({
-        search: search as string,
-        type: type as string,
-        isActive: isActive === 'true' ? true : isActive === 'false' ? false : undefined,
-      });
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
 
-      res.json(entities);
+      res.json(await getOwnPermissions(user));
     } catch (error) {
-      console.error('Get entities error:', error);
+      console.error('Get user permissions error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.post('/api/entities', authenticate, async (req: AuthRequest, res) => {
+  app.post('/api/delegations', authenticate, requirePermission('delegations', 'CREATE'), async (req: AuthRequest, res) => {
     try {
-      const { entity, addresses, contacts } = req.body;
-
-      const entityData = insertEntitySchema.parse(entity);
+      const validatedData = insertDelegationSchema.parse(req.body);
+      const workGroupIds = Array.from(new Set(validatedData.workGroupIds));
+      const delegatedPermissions = Array.from(new Set(validatedData.permissions));
+
+      const scope = await getAccessScope(req.user!);
+      const fromUser = await storage.getUser(validatedData.fromUserId);
+      const toUser = await storage.getUser(validatedData.toUserId);
+
+      if (
+        !fromUser || !toUser ||
+        !await storage.isRecordInScope('users', fromUser.id, scope) ||
+        !await storage.isRecordInScope('users', toUser.id, scope)
+      ) {
+        return res.status(404).json({ message: 'User not found' });
+      }
 
-      // Check if document already exists
-      const existingEntity = await storage.getEntityByDocument(entityData.document);
-      if (existingEntity) {
-        return res.status(400).json({ message: 'Document already exists' });
+      if (!fromUser.isActive || !toUser.isActive) {
+        return res.status(400).json({ message: 'Both users must be active' });
       }
 
-      const newEntity = await storage.createEntity({
-        ...entityData,
-        createdBy: req.user!.id,
-      });
+      // Only what the delegating user holds can be lent
+      const delegatorWorkGroupIds = await storage.getUserWorkGroupIds(fromUser.id);
+      if (workGroupIds.some(workGroupId => !delegatorWorkGroupIds.includes(workGroupId))) {
+        return res.status(400).json({ message: 'The delegating user does not belong to every selected work group' });
+      }
 
-      // Add addresses if provided
-      if (addresses && addresses.length > 0) {
-        for (const address of addresses) {
-          await storage.createEntityAddress({
-            ...address,
-            entityId: newEntity.id,
-          });
-        }
+      const delegatorPermissions = await getOwnPermissions(fromUser);
+      if (delegatedPermissions.some(permission => !delegatorPermissions.includes(permission))) {
+        return res.status(400).json({ message: 'The delegating user does not hold every selected permission' });
       }
 
-      // Add contacts if provided
-      if (contacts && contacts.length > 0) {
-        for (const contact of contacts) {
-          await storage.createEntityContact({
-            ...contact,
-            entityId: newEntity.id,
-          });
-        }
+      // Nor can a delegation be used to hand out permissions the caller does not hold
+      const callerPermissions = await getUserPermissions(req.user!);
+      if (delegatedPermissions.some(permission => !callerPermissions.includes(permission))) {
+        return res.status(403).json({ message: 'Cannot delegate permissions you do not hold' });
       }
 
-      // Log entity creation
-      await storage.createAuditLog({
-        userId: req.user!.id,
-        action: 'CREATE',
-        table: 'entities',
-        recordId: newEntity.id,
-        newValues: newEntity,
-        ipAddress: req.ip,
-        userAgent: req.get('User-Agent'),
+      const delegation = await storage.transaction(async (tx) => {
+        const createdDelegation = await tx.createDelegation({
+          ...validatedData,
+          workGroupIds,
+          permissions: delegatedPermissions,
+          createdBy: req.user!.id,
+        });
+
+        // Log delegation creation
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'DELEGATION_CREATE',
+          table: 'delegations',
+          recordId: createdDelegation.id,
+          newValues: createdDelegation,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+
+        return createdDelegation;
       });
 
-      const entityWithDetails = await storage.getEntityWithDetails(newEntity.id);
-      res.status(201).json(entityWithDetails);
+      res.status(201).json(toDelegationResponse({ ...delegation, fromUser, toUser }));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Validation error', errors: error.errors });
       }
-      console.error('Create entity error:', error);
+      console.error('Create delegation error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.get('/api/entities/:id', authenticate, async (req: AuthRequest, res) => {
+  // Ends the delegation immediately; the record is kept for the history
+  app.delete('/api/delegations/:id', authenticate, requirePermission('delegations', 'DELETE'), async (req: AuthRequest, res) => {
     try {
-      const entity = await storage.getEntityWithDetails(req.params.id);
+      const delegation = await storage.getDelegation(req.params.id);
+      if (!delegation || !await isDelegationInScope(req, delegation)) {
+        return res.status(404).json({ message: 'Delegation not found' });
+      }
 
-      if (!entity) {
-        return res.status(404).json({ message: 'Entity not found' });
+      if (['EXPIRED', 'REVOKED'].includes(getDelegationStatus(delegation))) {
+        return res.status(400).json({ message: 'Delegation has already ended' });
       }
 
-      res.json(entity);
+      await storage.transaction(async (tx) => {
+        const revokedDelegation = await tx.revokeDelegation(delegation.id, req.user!.id);
+
+        // Log delegation revocation
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'DELEGATION_REVOKE',
+          table: 'delegations',
+          recordId: delegation.id,
+          oldValues: delegation,
+          newValues: revokedDelegation,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      });
+
+      res.json({ message: 'Delegation revoked successfully' });
     } catch (error) {
-      console.error('Get entity error:', error);
+      console.error('Revoke delegation error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.put('/api/entities/:id', authenticate, async (req: AuthRequest, res) => {
+  app.get('/api/delegations/:id/history', authenticate, requirePermission('delegations', 'VIEW'), async (req: AuthRequest, res) => {
     try {
-      const { entity: entityData, addresses, contacts } = req.body;
-
-      const existingEntity = await storage.getEntity(req.params.id);
-      if (!existingEntity) {
-        return res.status(404).json({ message: 'Entity not found' });
+      const delegation = await storage.getDelegation(req.params.id);
+      if (!delegation || !await isDelegationInScope(req, delegation)) {
+        return res.status(404).json({ message: 'Delegation not found' });
       }
 
-      // If document is being changed, check for duplicates
-      if (entityData.document && entityData.document !== existingEntity.document) {
-        const documentExists = await storage.getEntityByDocument(entityData.document);
-        if (documentExists) {
-          return res.status(400).json({ message: 'Document already exists' });
-        }
+      const auditLogs = await storage.getRecordAuditLogs('delegations', delegation.id);
+
+      res.json(auditLogs.map(auditLog => ({
+        id: auditLog.id,
+        action: auditLog.action,
+        user: auditLog.user ? toUserSummary(auditLog.user) : null,
+        impersonatedUserId: auditLog.impersonatedUserId,
+        createdAt: auditLog.createdAt,
+      })));
+    } catch (error) {
+      console.error('Get delegation history error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // API key routes
+  app.get('/api/api-keys', authenticate, requirePermission('api-keys', 'VIEW'), async (req: AuthRequest, res) => {
+    try {
+      const scope = await getAccessScope(req.user!);
+      let apiKeys = await storage.getApiKeys();
+
+      if (scope.workGroupIds !== null) {
+        const visibleUserIds = (await storage.getUsers(undefined, scope)).map(user => user.id);
+        apiKeys = apiKeys.filter(apiKey => visibleUserIds.includes(apiKey.userId));
       }
 
-      const updatedEntity = await storage.updateEntity(req.params.id, {
-        ...entityData,
-        updatedBy: req.user!.id,
-      });
+      res.json(apiKeys.map(toApiKeyResponse));
+    } catch (error) {
+      console.error('Get API keys error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
 
-      // Update addresses and contacts would require more complex logic
-      // For now, we'll just update the main entity
+  app.post('/api/api-keys', authenticate, requirePermission('api-keys', 'CREATE'), async (req: AuthRequest, res) => {
+    try {
+      const validatedData = insertApiKeySchema.parse(req.body);
+
+      const owner = await storage.getUser(validatedData.userId);
+      if (
+        !owner || !owner.isActive ||
+        !await storage.isRecordInScope('users', owner.id, await getAccessScope(req.user!))
+      ) {
+        return res.status(400).json({ message: 'Owner not found or inactive' });
+      }
 
-      // Log entity update
-      await storage.createAuditLog({
-        userId: req.user!.id,
-        action: 'UPDATE',
-        table: 'entities',
-        recordId: req.params.id,
-        oldValues: existingEntity,
-        newValues: updatedEntity,
-        ipAddress: req.ip,
-        userAgent: req.get('User-Agent'),
+      if (!await canHoldApiKeyOf(req, owner)) {
+        return res.status(403).json({ message: 'Cannot create a key for a user with permissions you do not hold' });
+      }
+
+      const { key, keyPrefix, keyHash } = generateApiKey();
+
+      const apiKey = await storage.transaction(async (tx) => {
+        const createdApiKey = await tx.createApiKey({
+          ...validatedData,
+          keyPrefix,
+          keyHash,
+          createdBy: req.user!.id,
+        });
+
+        // Log API key creation
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'API_KEY_CREATE',
+          table: 'api_keys',
+          recordId: createdApiKey.id,
+          newValues: toApiKeyResponse(createdApiKey),
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+
+        return createdApiKey;
       });
 
-      const entityWithDetails = await storage.getEntityWithDetails(req.params.id);
-      res.json(entityWithDetails);
+      res.status(201).json({ ...toApiKeyResponse(apiKey), key });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Validation error', errors: error.errors });
       }
-      console.error('Update entity error:', error);
+      console.error('Create API key error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.delete('/api/entities/:id', authenticate, async (req: AuthRequest, res) => {
+  // Issues a new secret for the key, invalidating the old one immediately
+  app.post('/api/api-keys/:id/rotate', authenticate, requirePermission('api-keys', 'EDIT'), async (req: AuthRequest, res) => {
     try {
-      const entity = await storage.getEntity(req.params.id);
-      if (!entity) {
-        return res.status(404).json({ message: 'Entity not found' });
+      const existingApiKey = await storage.getApiKey(req.params.id);
+      if (!existingApiKey || existingApiKey.revokedAt || !await isApiKeyInScope(req, existingApiKey)) {
+        return res.status(404).json({ message: 'API key not found' });
       }
 
-      await storage.deactivateEntity(req.params.id);
+      // The new secret is handed to the caller
+      const owner = await storage.getUser(existingApiKey.userId);
+      if (owner && !await canHoldApiKeyOf(req, owner)) {
+        return res.status(403).json({ message: 'Cannot rotate a key of a user with permissions you do not hold' });
+      }
 
-      // Log entity deactivation
-      await storage.createAuditLog({
-        userId: req.user!.id,
-        action: 'DELETE',
-        table: 'entities',
-        recordId: req.params.id,
-        oldValues: entity,
-        ipAddress: req.ip,
-        userAgent: req.get('User-Agent'),
+      const { key, keyPrefix, keyHash } = generateApiKey();
+      const apiKey = await storage.transaction(async (tx) => {
+        const rotatedApiKey = await tx.updateApiKeySecret(existingApiKey.id, keyPrefix, keyHash);
+
+        // Log API key rotation
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'API_KEY_ROTATE',
+          table: 'api_keys',
+          recordId: rotatedApiKey.id,
+          oldValues: { keyPrefix: existingApiKey.keyPrefix },
+          newValues: { keyPrefix: rotatedApiKey.keyPrefix },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+
+        return rotatedApiKey;
       });
 
-      res.json({ message: 'Entity deactivated successfully' });
+      res.json({ ...toApiKeyResponse(apiKey), key });
     } catch (error) {
-      console.error('Delete entity error:', error);
+      console.error('Rotate API key error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/api-keys/:id', authenticate, requirePermission('api-keys', 'DELETE'), async (req: AuthRequest, res) => {
+    try {
+      const apiKey = await storage.getApiKey(req.params.id);
+      if (!apiKey || apiKey.revokedAt || !await isApiKeyInScope(req, apiKey)) {
+        return res.status(404).json({ message: 'API key not found' });
+      }
+
+      await storage.transaction(async (tx) => {
+        await tx.revokeApiKey(apiKey.id);
+
+        // Log API key revocation
+        await tx.createAuditLog({
+          ...getAuditActor(req),
+          action: 'API_KEY_REVOKE',
+          table: 'api_keys',
+          recordId: apiKey.id,
+          oldValues: toApiKeyResponse(apiKey),
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      });
+
+      res.json({ message: 'API key revoked successfully' });
+    } catch (error) {
+      console.error('Revoke API key error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
@@ -0,0 +1,169 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getSensitiveFields, maskEntity, restoreMaskedEntity } from './sensitiveData';
+import type { EntityAddress, EntityContact, EntityWithAddressesAndContacts } from '@shared/schema';
+
+// Masking is pure, but importing the permission checks would otherwise open the database connection
+vi.mock('./storage', () => ({ storage: {} }));
+
+const createdAt = new Date('2026-01-01T00:00:00Z');
+
+const address: EntityAddress = {
+  id: 'address-1',
+  entityId: 'entity-1',
+  street: 'Rua das Flores',
+  number: '123',
+  complement: 'Sala 4',
+  neighborhood: 'Centro',
+  zipCode: '01310-100',
+  city: 'São Paulo',
+  state: 'SP',
+  country: 'Brasil',
+  isActive: true,
+  isPrimary: true,
+  createdAt,
+  updatedAt: createdAt,
+};
+
+const contact: EntityContact = {
+  id: 'contact-1',
+  entityId: 'entity-1',
+  name: 'Maria',
+  role: 'Diretora',
+  phone: '(11) 3456-7890',
+  mobile: '(11) 98765-4321',
+  email: 'maria@example.com',
+  telegram: null,
+  instagram: null,
+  facebook: null,
+  linkedin: null,
+  status: 'PRIMARY',
+  createdAt,
+  updatedAt: createdAt,
+};
+
+function buildEntity(document: string, overrides: Partial<EntityWithAddressesAndContacts> = {}): EntityWithAddressesAndContacts {
+  return {
+    id: 'entity-1',
+    type: document.length === 14 ? 'COMPANY' : 'INDIVIDUAL',
+    name: 'Maria da Silva',
+    document,
+    municipalRegistration: null,
+    stateRegistration: null,
+    isActive: true,
+    createdAt,
+    updatedAt: createdAt,
+    createdBy: null,
+    updatedBy: null,
+    externalId: null,
+    addresses: [address],
+    contacts: [contact],
+    ...overrides,
+  };
+}
+
+describe('maskEntity', () => {
+  it('keeps the middle digits of a CPF', () => {
+    expect(maskEntity(buildEntity('12345678901')).document).toBe('***.456.789-**');
+  });
+
+  it('keeps the middle digits of a CNPJ', () => {
+    expect(maskEntity(buildEntity('12345678000199')).document).toBe('**.345.678/****-**');
+  });
+
+  it('keeps the last four digits of any other document', () => {
+    expect(maskEntity(buildEntity('123456789')).document).toBe('*****6789');
+  });
+
+  it('masks addresses and contacts but keeps the other fields', () => {
+    const masked = maskEntity(buildEntity('12345678901'));
+
+    expect(masked.name).toBe('Maria da Silva');
+    expect(masked.addresses[0]).toMatchObject({
+      street: 'R***',
+      number: '1***',
+      complement: 'S***',
+      zipCode: '****0-100',
+      neighborhood: 'Centro',
+      city: 'São Paulo',
+    });
+    expect(masked.contacts[0]).toMatchObject({
+      phone: '(**) ****-7890',
+      mobile: '(**) *****-4321',
+      email: 'm***@example.com',
+      name: 'Maria',
+    });
+  });
+
+  it('leaves empty fields alone', () => {
+    const masked = maskEntity(buildEntity('12345678901', { contacts: [{ ...contact, email: '', phone: null }] }));
+
+    expect(masked.contacts[0].email).toBe('');
+    expect(masked.contacts[0].phone).toBeNull();
+  });
+
+  it('does not change the original record', () => {
+    const entity = buildEntity('12345678901');
+    maskEntity(entity);
+
+    expect(entity.document).toBe('12345678901');
+    expect(entity.contacts[0].email).toBe('maria@example.com');
+  });
+});
+
+describe('getSensitiveFields', () => {
+  it('names the filled sensitive fields without their values', () => {
+    const entity = buildEntity('12345678901', { contacts: [{ ...contact, phone: null }] });
+
+    expect(getSensitiveFields(entity)).toEqual([
+      'document',
+      'addresses.street',
+      'addresses.number',
+      'addresses.complement',
+      'addresses.zipCode',
+      'contacts.mobile',
+      'contacts.email',
+    ]);
+  });
+});
+
+describe('restoreMaskedEntity', () => {
+  const stored = buildEntity('12345678901');
+  const masked = maskEntity(stored);
+
+  it('keeps the stored values of fields sent back masked', () => {
+    const { entity, details } = restoreMaskedEntity(
+      stored,
+      { name: 'Maria Souza', document: masked.document },
+      { addresses: [{ ...masked.addresses[0] }], contacts: [{ ...masked.contacts[0] }] },
+    );
+
+    expect(entity).toEqual({ name: 'Maria Souza', document: '12345678901' });
+    expect(details.addresses?.[0]).toMatchObject({ street: 'Rua das Flores', number: '123', zipCode: '01310-100' });
+    expect(details.contacts?.[0]).toMatchObject({ phone: '(11) 3456-7890', email: 'maria@example.com' });
+  });
+
+  it('saves the values the user changed', () => {
+    const { entity, details } = restoreMaskedEntity(
+      stored,
+      { document: '98765432100' },
+      { contacts: [{ ...masked.contacts[0], email: 'maria.silva@example.com' }] },
+    );
+
+    expect(entity.document).toBe('98765432100');
+    expect(details.contacts?.[0]).toMatchObject({ email: 'maria.silva@example.com', phone: '(11) 3456-7890' });
+  });
+
+  it('only restores rows that match a stored row by id', () => {
+    const { details } = restoreMaskedEntity(
+      stored,
+      {},
+      { addresses: [{ ...masked.addresses[0], id: undefined }, { ...masked.addresses[0], id: 'address-2' }] },
+    );
+
+    expect(details.addresses?.map(restored => restored.street)).toEqual(['R***', 'R***']);
+  });
+
+  it('leaves the lists out when they are not sent', () => {
+    expect(restoreMaskedEntity(stored, {}, {}).details).toEqual({ addresses: undefined, contacts: undefined });
+  });
+});
@@ -0,0 +1,119 @@
+import { hasPermission } from './permissions';
+import type { EntityWithAddressesAndContacts } from '@shared/schema';
+
+type Masker = (value: string) => string;
+
+// Keeps the middle of the document, e.g. ***.456.789-** for a CPF
+function maskDocument(document: string): string {
+  const digits = document.replace(/\D/g, '');
+
+  if (digits.length === 11) {
+    return `***.${digits.slice(3, 6)}.${digits.slice(6, 9)}-**`;
+  }
+  if (digits.length === 14) {
+    return `**.${digits.slice(2, 5)}.${digits.slice(5, 8)}/****-**`;
+  }
+  return maskDigits(digits);
+}
+
+// Keeps the last four digits and any formatting
+function maskDigits(value: string): string {
+  const totalDigits = value.replace(/\D/g, '').length;
+  let seenDigits = 0;
+
+  return value.replace(/\d/g, digit => (++seenDigits > totalDigits - 4 ? digit : '*'));
+}
+
+// Keeps the first letter of the mailbox and the domain
+function maskEmail(email: string): string {
+  const [mailbox, domain] = email.split('@');
+  return domain ? `${mailbox.charAt(0)}***@${domain}` : maskText(email);
+}
+
+function maskText(value: string): string {
+  return `${value.charAt(0)}***`;
+}
+
+// Personal data covered by the LGPD, shown masked to users without sensitive-data:VIEW
+const ENTITY_FIELD_POLICY = {
+  entity: { document: maskDocument },
+  addresses: { street: maskText, number: maskText, complement: maskText, zipCode: maskDigits },
+  contacts: { phone: maskDigits, mobile: maskDigits, email: maskEmail },
+} satisfies Record<string, Record<string, Masker>>;
+
+function applyPolicy<T extends object>(record: T, policy: Record<string, Masker>): T {
+  const masked = { ...record } as Record<string, unknown>;
+
+  for (const [field, mask] of Object.entries(policy)) {
+    const value = masked[field];
+    if (typeof value === 'string' && value !== '') {
+      masked[field] = mask(value);
+    }
+  }
+
+  return masked as T;
+}
+
+export async function canViewSensitiveData(user: { id: string; profile: string }): Promise<boolean> {
+  return hasPermission(user, 'sensitive-data', 'VIEW');
+}
+
+export function maskEntity(entity: EntityWithAddressesAndContacts): EntityWithAddressesAndContacts {
+  return {
+    ...applyPolicy(entity, ENTITY_FIELD_POLICY.entity),
+    addresses: entity.addresses.map(address => applyPolicy(address, ENTITY_FIELD_POLICY.addresses)),
+    contacts: entity.contacts.map(contact => applyPolicy(contact, ENTITY_FIELD_POLICY.contacts)),
+  };
+}
+
+// Names the filled sensitive fields, e.g. "contacts.email", so audit entries never hold the values themselves
+export function getSensitiveFields(entity: EntityWithAddressesAndContacts): string[] {
+  const fields = new Set<string>();
+  const collect = (group: keyof typeof ENTITY_FIELD_POLICY, records: object[]) => {
+    for (const record of records) {
+      for (const field of Object.keys(ENTITY_FIELD_POLICY[group])) {
+        if ((record as Record<string, unknown>)[field]) {
+          fields.add(group === 'entity' ? field : `${group}.${field}`);
+        }
+      }
+    }
+  };
+
+  collect('entity', [entity]);
+  collect('addresses', entity.addresses);
+  collect('contacts', entity.contacts);
+
+  return Array.from(fields);
+}
+
+// A masked value sent back unchanged keeps the stored value, so saving a masked record never overwrites the real data
+function restoreMaskedFields<T extends object>(record: T, stored: object | undefined, policy: Record<string, Masker>): T {
+  const restored = { ...record } as Record<string, unknown>;
+
+  for (const [field, mask] of Object.entries(policy)) {
+    const storedValue = (stored as Record<string, unknown> | undefined)?.[field];
+    if (typeof storedValue === 'string' && storedValue !== '' && restored[field] === mask(storedValue)) {
+      restored[field] = storedValue;
+    }
+  }
+
+  return restored as T;
+}
+
+export function restoreMaskedEntity<E extends object, A extends { id?: string }, C extends { id?: string }>(
+  stored: EntityWithAddressesAndContacts,
+  entity: E,
+  details: { addresses?: A[]; contacts?: C[] },
+): { entity: E; details: { addresses?: A[]; contacts?: C[] } } {
+  return {
+    entity: restoreMaskedFields(entity, stored, ENTITY_FIELD_POLICY.entity),
+    details: {
+      addresses: details.addresses?.map(address => restoreMaskedFields(
+        address, stored.addresses.find(storedAddress => storedAddress.id === address.id), ENTITY_FIELD_POLICY.addresses,
+      )),
+      contacts: details.contacts?.map(contact => restoreMaskedFields(
+        contact, stored.contacts.find(storedContact => storedContact.id === contact.id), ENTITY_FIELD_POLICY.contacts,
+      )),
+    },
+  };
+}
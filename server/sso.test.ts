@@ -0,0 +1,205 @@
+import crypto from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { storage } from './storage';
+import { startTestApp } from './testApp';
+
+const testDatabase = vi.hoisted(async () => {
+  const { createTestDatabase } = await import('./testDatabase');
+  return createTestDatabase();
+});
+
+vi.mock('./db', () => ({ db: {} }));
+vi.mock('./storage', async (importOriginal) => {
+  const { DatabaseStorage } = await importOriginal<typeof import('./storage')>();
+  return { DatabaseStorage, storage: new DatabaseStorage(await testDatabase) };
+});
+
+const CLIENT_ID = 'mec-one';
+
+// A local OpenID Connect provider that signs in whoever the test asks for
+async function startMockProvider() {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const pendingCodes = new Map<string, { claims: Record<string, unknown>; nonce: string; codeChallenge: string }>();
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  const server: Server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  app.get('/.well-known/openid-configuration', (req, res) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+    });
+  });
+
+  app.get('/jwks', (req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'test', alg: 'RS256', use: 'sig' }] });
+  });
+
+  app.post('/token', (req, res) => {
+    const pending = pendingCodes.get(req.body.code);
+    pendingCodes.delete(req.body.code);
+
+    const codeChallenge = crypto.createHash('sha256').update(req.body.code_verifier ?? '').digest('base64url');
+    if (!pending || pending.codeChallenge !== codeChallenge) {
+      return res.status(400).json({ error: 'invalid_grant' });
+    }
+
+    res.json({
+      access_token: crypto.randomUUID(),
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: jwt.sign({ ...pending.claims, nonce: pending.nonce }, privateKey, {
+        algorithm: 'RS256',
+        keyid: 'test',
+        issuer,
+        audience: CLIENT_ID,
+        expiresIn: '5m',
+      }),
+    });
+  });
+
+  return {
+    issuer,
+    // Plays the user signing in at the provider and returns the authorization code
+    authorize(authorizationUrl: URL, claims: Record<string, unknown>): string {
+      const code = crypto.randomUUID();
+      pendingCodes.set(code, {
+        claims,
+        nonce: authorizationUrl.searchParams.get('nonce')!,
+        codeChallenge: authorizationUrl.searchParams.get('code_challenge')!,
+      });
+      return code;
+    },
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+describe('single sign-on', () => {
+  let provider: Awaited<ReturnType<typeof startMockProvider>>;
+  let app: Awaited<ReturnType<typeof startTestApp>>;
+
+  // Goes through the provider and returns where the callback sends the browser
+  async function signInAtProvider(claims: Record<string, unknown>): Promise<string> {
+    const login = await fetch(`${app.url}/api/auth/sso/login`, { redirect: 'manual' });
+    const authorizationUrl = new URL(login.headers.get('location')!);
+    const code = provider.authorize(authorizationUrl, claims);
+
+    const callbackUrl = new URL(authorizationUrl.searchParams.get('redirect_uri')!);
+    callbackUrl.search = new URLSearchParams({ code, state: authorizationUrl.searchParams.get('state')! }).toString();
+
+    const callback = await fetch(callbackUrl, {
+      redirect: 'manual',
+      headers: { cookie: login.headers.getSetCookie()[0].split(';')[0] },
+    });
+    return callback.headers.get('location')!;
+  }
+
+  function getTicket(location: string): string {
+    expect(location).toContain('#sso_ticket=');
+    return decodeURIComponent(location.split('#sso_ticket=')[1]);
+  }
+
+  function exchangeTicket(ticket: string) {
+    return fetch(`${app.url}/api/auth/sso/exchange`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ticket }),
+    });
+  }
+
+  beforeAll(async () => {
+    provider = await startMockProvider();
+
+    await storage.createSystemConfig('sso.enabled', 'true');
+    await storage.createSystemConfig('sso.issuer_url', provider.issuer);
+    await storage.createSystemConfig('sso.client_id', CLIENT_ID);
+    await storage.createSystemConfig('sso.client_secret', 'secret');
+    await storage.createSystemConfig('sso.allow_insecure_requests', 'true');
+    await storage.createSystemConfig('sso.profile_mapping', JSON.stringify([
+      { claim: 'groups', value: 'mec-coordinators', profile: 'COORDINATOR' },
+    ]));
+
+    app = await startTestApp();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await provider.close();
+  });
+
+  it('links an existing account whose email only differs in case', async () => {
+    const user = await storage.createUser({
+      email: 'Ana.Souza@Example.com',
+      firstName: 'Ana',
+      lastName: 'Souza',
+      password: 'hash',
+      profile: 'NEGOTIATOR',
+    });
+
+    const location = await signInAtProvider({ sub: 'ana', email: 'ana.souza@example.com', email_verified: true });
+    const response = await exchangeTicket(getTicket(location));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).user.id).toBe(user.id);
+    expect((await storage.getUser(user.id))?.ssoSubject).toBe('ana');
+  });
+
+  it('accepts a login ticket only once', async () => {
+    const ticket = getTicket(await signInAtProvider({ sub: 'ana', email: 'ana.souza@example.com', email_verified: true }));
+
+    expect((await exchangeTicket(ticket)).status).toBe(200);
+    expect((await exchangeTicket(ticket)).status).toBe(401);
+  });
+
+  it('rejects a ticket that was never issued', async () => {
+    expect((await exchangeTicket(crypto.randomBytes(32).toString('hex'))).status).toBe(401);
+  });
+
+  it('does not link an account by an unverified email', async () => {
+    await storage.createUser({
+      email: 'rui.lima@example.com',
+      firstName: 'Rui',
+      lastName: 'Lima',
+      password: 'hash',
+      profile: 'NEGOTIATOR',
+    });
+
+    const location = await signInAtProvider({ sub: 'rui', email: 'rui.lima@example.com', email_verified: false });
+
+    expect(location).toBe('/?sso_error=no_account');
+  });
+
+  it('creates the account when a profile mapping rule applies', async () => {
+    const location = await signInAtProvider({
+      sub: 'bia',
+      email: 'bia.costa@example.com',
+      email_verified: true,
+      given_name: 'Bia',
+      family_name: 'Costa',
+      groups: ['mec-coordinators'],
+    });
+    const response = await exchangeTicket(getTicket(location));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).user).toMatchObject({ email: 'bia.costa@example.com', profile: 'COORDINATOR' });
+  });
+
+  it('does not create an account when no profile applies', async () => {
+    const location = await signInAtProvider({ sub: 'leo', email: 'leo@example.com', email_verified: true });
+
+    expect(location).toBe('/?sso_error=no_account');
+  });
+});
@@ -0,0 +1,179 @@
+import * as oidc from 'openid-client';
+import memoize from 'memoizee';
+import { getConfigBoolean, getConfigValue } from './systemConfig';
+import { userProfiles } from '@shared/schema';
+
+type UserProfile = typeof userProfiles[number];
+
+export interface SsoSettings {
+  enabled: boolean;
+  issuerUrl: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scopes: string;
+  defaultProfile: UserProfile | null;
+  allowInsecureRequests: boolean;
+}
+
+// Assigns a profile when a claim contains (or equals) the given value
+export interface SsoProfileMappingRule {
+  claim: string;
+  value: string;
+  profile: UserProfile;
+}
+
+// Values kept between the redirect to the provider and the callback
+export interface SsoFlowState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+export interface SsoIdentity {
+  issuer: string;
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+  claims: Record<string, unknown>;
+}
+
+function toUserProfile(value: string): UserProfile | null {
+  return (userProfiles as readonly string[]).includes(value) ? value as UserProfile : null;
+}
+
+export async function getSsoSettings(): Promise<SsoSettings> {
+  return {
+    enabled: await getConfigBoolean('sso.enabled'),
+    issuerUrl: (await getConfigValue('sso.issuer_url')).trim(),
+    clientId: (await getConfigValue('sso.client_id')).trim(),
+    clientSecret: await getConfigValue('sso.client_secret'),
+    redirectUri: (await getConfigValue('sso.redirect_uri')).trim(),
+    scopes: await getConfigValue('sso.scopes'),
+    defaultProfile: toUserProfile((await getConfigValue('sso.default_profile')).trim()),
+    allowInsecureRequests: await getConfigBoolean('sso.allow_insecure_requests'),
+  };
+}
+
+export function isSsoConfigured(settings: SsoSettings): boolean {
+  return settings.enabled && !!settings.issuerUrl && !!settings.clientId;
+}
+
+// Discovery hits the provider, so the result is reused until the settings change
+const discoverProvider = memoize(
+  async (issuerUrl: string, clientId: string, clientSecret: string, allowInsecureRequests: boolean) => {
+    return oidc.discovery(
+      new URL(issuerUrl),
+      clientId,
+      clientSecret || undefined,
+      clientSecret ? undefined : oidc.None(),
+      allowInsecureRequests ? { execute: [oidc.allowInsecureRequests] } : undefined,
+    );
+  },
+  { promise: true, maxAge: 60 * 60 * 1000, length: 4 },
+);
+
+function getProviderConfiguration(settings: SsoSettings): Promise<oidc.Configuration> {
+  return discoverProvider(
+    settings.issuerUrl,
+    settings.clientId,
+    settings.clientSecret,
+    settings.allowInsecureRequests,
+  );
+}
+
+export async function buildSsoAuthorizationUrl(
+  settings: SsoSettings,
+  redirectUri: string,
+): Promise<{ url: URL; flowState: SsoFlowState }> {
+  const config = await getProviderConfiguration(settings);
+
+  const flowState: SsoFlowState = {
+    state: oidc.randomState(),
+    nonce: oidc.randomNonce(),
+    codeVerifier: oidc.randomPKCECodeVerifier(),
+  };
+
+  const url = oidc.buildAuthorizationUrl(config, {
+    redirect_uri: redirectUri,
+    scope: settings.scopes,
+    state: flowState.state,
+    nonce: flowState.nonce,
+    code_challenge: await oidc.calculatePKCECodeChallenge(flowState.codeVerifier),
+    code_challenge_method: 'S256',
+  });
+
+  return { url, flowState };
+}
+
+// Exchanges the authorization code and validates the ID token (signature, issuer, audience, nonce)
+export async function completeSsoAuthorization(
+  settings: SsoSettings,
+  callbackUrl: URL,
+  flowState: SsoFlowState,
+): Promise<SsoIdentity> {
+  const config = await getProviderConfiguration(settings);
+
+  const tokens = await oidc.authorizationCodeGrant(config, callbackUrl, {
+    pkceCodeVerifier: flowState.codeVerifier,
+    expectedState: flowState.state,
+    expectedNonce: flowState.nonce,
+    idTokenExpected: true,
+  });
+
+  let claims: Record<string, unknown> = { ...tokens.claims()! };
+
+  // Some providers only return profile claims from the userinfo endpoint
+  if (!claims.email) {
+    const userInfo = await oidc.fetchUserInfo(config, tokens.access_token, claims.sub as string);
+    claims = { ...userInfo, ...claims };
+  }
+
+  return {
+    issuer: config.serverMetadata().issuer,
+    subject: claims.sub as string,
+    email: typeof claims.email === 'string' ? claims.email.toLowerCase() : undefined,
+    // Only an explicit claim counts, since the email is used to link existing accounts
+    emailVerified: claims.email_verified === true,
+    firstName: typeof claims.given_name === 'string' ? claims.given_name : undefined,
+    lastName: typeof claims.family_name === 'string' ? claims.family_name : undefined,
+    claims,
+  };
+}
+
+export async function getSsoProfileMappingRules(): Promise<SsoProfileMappingRule[]> {
+  try {
+    const rules = JSON.parse(await getConfigValue('sso.profile_mapping'));
+    if (!Array.isArray(rules)) {
+      return [];
+    }
+
+    return rules.filter((rule): rule is SsoProfileMappingRule =>
+      typeof rule?.claim === 'string' &&
+      typeof rule?.value === 'string' &&
+      toUserProfile(rule?.profile) !== null
+    );
+  } catch (error) {
+    console.error('Invalid sso.profile_mapping config:', error);
+    return [];
+  }
+}
+
+// The first matching rule wins, so list the most privileged rules first
+export function resolveSsoProfile(
+  identity: SsoIdentity,
+  rules: SsoProfileMappingRule[],
+): UserProfile | null {
+  for (const rule of rules) {
+    const claimValue = identity.claims[rule.claim];
+    const values = Array.isArray(claimValue) ? claimValue : [claimValue];
+
+    if (values.some(value => String(value) === rule.value)) {
+      return rule.profile;
+    }
+  }
+
+  return null;
+}
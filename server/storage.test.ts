@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { diffEntityChildren, storage } from './storage';
+import type { User } from '@shared/schema';
+
+const testDatabase = vi.hoisted(async () => {
+  const { createTestDatabase } = await import('./testDatabase');
+  return createTestDatabase();
+});
+
+vi.mock('./db', () => ({ db: {} }));
+vi.mock('./storage', async (importOriginal) => {
+  const original = await importOriginal<typeof import('./storage')>();
+  return { ...original, storage: new original.DatabaseStorage(await testDatabase) };
+});
+
+let user: User;
+
+beforeEach(async () => {
+  user = await storage.createUser({
+    email: `${crypto.randomUUID()}@example.com`,
+    firstName: 'Ana',
+    lastName: 'Souza',
+    password: 'hash',
+    profile: 'NEGOTIATOR',
+  });
+});
+
+describe('consumeTwoFactorRecoveryCode', () => {
+  it('accepts each recovery code only once', async () => {
+    await storage.enableTwoFactor(user.id, ['hash-a', 'hash-b']);
+
+    expect(await storage.consumeTwoFactorRecoveryCode(user.id, 'hash-a')).toBe(true);
+    expect(await storage.consumeTwoFactorRecoveryCode(user.id, 'hash-a')).toBe(false);
+    expect((await storage.getUser(user.id))?.twoFactorRecoveryCodes).toEqual(['hash-b']);
+  });
+
+  it('rejects codes of another user', async () => {
+    const otherUser = await storage.createUser({
+      email: `${crypto.randomUUID()}@example.com`,
+      firstName: 'Rui',
+      lastName: 'Lima',
+      password: 'hash',
+      profile: 'NEGOTIATOR',
+    });
+    await storage.enableTwoFactor(otherUser.id, ['hash-c']);
+
+    expect(await storage.consumeTwoFactorRecoveryCode(user.id, 'hash-c')).toBe(false);
+  });
+});
+
+describe('markPasswordResetTokenUsed', () => {
+  async function createResetToken(expiresAt: Date) {
+    const tokenHash = crypto.randomUUID().replace(/-/g, '');
+    await storage.createPasswordResetToken(user.id, tokenHash, expiresAt);
+    return (await storage.getPasswordResetToken(tokenHash))!;
+  }
+
+  it('consumes a valid token only once', async () => {
+    const resetToken = await createResetToken(new Date(Date.now() + 60 * 1000));
+
+    expect(await storage.markPasswordResetTokenUsed(resetToken.id)).toBe(true);
+    expect(await storage.markPasswordResetTokenUsed(resetToken.id)).toBe(false);
+  });
+
+  it('does not consume an expired token', async () => {
+    const resetToken = await createResetToken(new Date(Date.now() - 1000));
+
+    expect(await storage.markPasswordResetTokenUsed(resetToken.id)).toBe(false);
+  });
+
+  it('does not consume a token invalidated by a newer request', async () => {
+    const resetToken = await createResetToken(new Date(Date.now() + 60 * 1000));
+    await storage.invalidatePasswordResetTokens(user.id);
+
+    expect(await storage.markPasswordResetTokenUsed(resetToken.id)).toBe(false);
+  });
+
+  it('does not consume an unknown token', async () => {
+    expect(await storage.markPasswordResetTokenUsed(crypto.randomUUID())).toBe(false);
+  });
+});
+
+describe('diffEntityChildren', () => {
+  type Address = { id: string; street: string; number: string };
+  type AddressInput = Partial<Address>;
+
+  const existing: Address[] = [
+    { id: 'address-1', street: 'Rua das Flores', number: '123' },
+    { id: 'address-2', street: 'Avenida Paulista', number: '1000' },
+  ];
+
+  function diff(incoming: AddressInput[]) {
+    return diffEntityChildren(existing, incoming);
+  }
+
+  it('creates the rows sent without an id', () => {
+    const { created, updated, deleted } = diff([
+      ...existing,
+      { street: 'Rua Augusta', number: '500' },
+    ]);
+
+    expect(created).toEqual([{ street: 'Rua Augusta', number: '500' }]);
+    expect(updated).toEqual([]);
+    expect(deleted).toEqual([]);
+  });
+
+  it('updates only the rows with changed fields', () => {
+    const { created, updated, deleted } = diff([
+      { id: 'address-1', street: 'Rua das Flores', number: '125' },
+      { id: 'address-2', street: 'Avenida Paulista', number: '1000' },
+    ]);
+
+    expect(created).toEqual([]);
+    expect(updated).toEqual([{ current: existing[0], data: { id: 'address-1', street: 'Rua das Flores', number: '125' } }]);
+    expect(deleted).toEqual([]);
+  });
+
+  it('ignores fields that are not sent', () => {
+    const { updated } = diff([
+      { id: 'address-1', street: 'Rua das Flores', number: undefined },
+      { id: 'address-2' },
+    ]);
+
+    expect(updated).toEqual([]);
+  });
+
+  it('deletes the rows left out of the list', () => {
+    const { created, updated, deleted } = diff([existing[1]]);
+
+    expect(created).toEqual([]);
+    expect(updated).toEqual([]);
+    expect(deleted).toEqual([existing[0]]);
+  });
+
+  it('replaces every row when none of the sent rows has an id', () => {
+    const { created, updated, deleted } = diff([{ street: 'Rua Augusta', number: '500' }]);
+
+    expect(created).toEqual([{ street: 'Rua Augusta', number: '500' }]);
+    expect(updated).toEqual([]);
+    expect(deleted).toEqual(existing);
+  });
+
+  it('ignores rows whose id belongs to no existing row', () => {
+    const { created, updated, deleted } = diff([
+      ...existing,
+      { id: 'address-9', street: 'Rua Augusta', number: '500' },
+    ]);
+
+    expect(created).toEqual([]);
+    expect(updated).toEqual([]);
+    expect(deleted).toEqual([]);
+  });
+});
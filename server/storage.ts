@@ -7,6 +7,16 @@ import {
   entityContacts,
   auditLogs,
   userSessions,
+  passwordResetTokens,
+  ssoLoginTickets,
+  passwordHistory,
+  apiKeys,
+  systemConfigs,
+  authAttempts,
+  emailOutbox,
+  profilePermissions,
+  workGroupPermissions,
+  delegations,
   type User,
   type InsertUser,
   type WorkGroup,
@@ -21,20 +31,105 @@ import {
   type EntityWithAddressesAndContacts,
   type WorkGroupWithUsers,
   type InsertAuditLog,
+  type PasswordResetToken,
+  type PasswordHistory,
+  type ApiKey,
+  type ApiKeyWithOwner,
+  type UserSession,
+  type SystemConfig,
+  type InsertAuthAttempt,
+  type OutboxEmail,
+  type InsertOutboxEmail,
+  type Delegation,
+  type DelegationWithUsers,
+  type AuditLogWithUser,
+  type ProfilePermission,
+  type WorkGroupPermission,
+  type PermissionModule,
+  type PermissionAction,
+  userProfiles,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, desc, ilike, or } from "drizzle-orm";
+import { db as defaultDb } from "./db";
+import * as schema from "@shared/schema";
+import { eq, and, desc, ilike, or, isNull, gt, gte, lte, ne, count, sql, inArray, type SQL, type ExtractTablesWithRelations } from "drizzle-orm";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+
+type UserProfile = typeof userProfiles[number];
+
+// Either the connection pool or an open transaction
+type Database = PgDatabase<PgQueryResultHKT, typeof schema, ExtractTablesWithRelations<typeof schema>>;
+
+// Records a caller can reach: those assigned to one of their work groups, or all of them when workGroupIds is null
+export interface AccessScope {
+  userId: string;
+  workGroupIds: string[] | null;
+}
+
+// Record types that carry work group assignments
+export type ScopedRecordType = 'users' | 'work-groups';
+
+// exactDocumentSearch only matches the full document, so callers who see it masked cannot guess it digit by digit
+export interface EntityFilters {
+  search?: string;
+  type?: string;
+  isActive?: boolean;
+  exactDocumentSearch?: boolean;
+}
+
+// Who made a change, for audit entries written by storage operations
+export type AuditContext = Pick<InsertAuditLog, 'userId' | 'apiKeyId' | 'impersonatedUserId' | 'ipAddress' | 'userAgent'>;
+
+// Nested records sent with an entity; those without an id are new
+export type EntityAddressInput = Omit<InsertEntityAddress, 'entityId'> & { id?: string };
+export type EntityContactInput = Omit<InsertEntityContact, 'entityId'> & { id?: string };
+
+// Children left out of the list are deleted; a list that is not sent leaves the children untouched
+export interface EntityDetailsInput {
+  addresses?: EntityAddressInput[];
+  contacts?: EntityContactInput[];
+}
+
+// Splits the submitted children into the ones to create, update and delete
+export function diffEntityChildren<T extends { id: string }, I extends { id?: string }>(existing: T[], incoming: I[]) {
+  const incomingIds = incoming.map(child => child.id).filter(Boolean);
+  const updated = incoming.flatMap(child => {
+    const current = existing.find(existingChild => existingChild.id === child.id);
+    const hasChanges = current && Object.entries(child).some(
+      ([field, value]) => value !== undefined && (current as Record<string, unknown>)[field] !== value
+    );
+    return current && hasChanges ? [{ current, data: child }] : [];
+  });
+
+  return {
+    created: incoming.filter(child => !child.id),
+    updated,
+    deleted: existing.filter(child => !incomingIds.includes(child.id)),
+  };
+}
 
 export interface IStorage {
+  // Operations made through the given storage commit together, or none does
+  transaction<T>(work: (storage: IStorage) => Promise<T>): Promise<T>;
+
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserBySsoSubject(issuer: string, subject: string): Promise<User | undefined>;
   getUserWithWorkGroups(id: string): Promise<UserWithWorkGroups | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, user: Partial<InsertUser>): Promise<User>;
   updateUserLastLogin(id: string, lastLogin: Date): Promise<void>;
+  updateUserPassword(id: string, passwordHash: string, options: { mustChangePassword: boolean; updatedBy: string }): Promise<void>;
   deactivateUser(id: string): Promise<void>;
-  getUsers(filters?: { search?: string; profile?: string; isActive?: boolean }): Promise<UserWithWorkGroups[]>;
+  incrementFailedLoginAttempts(id: string): Promise<number>;
+  lockUser(id: string, lockedUntil: Date): Promise<void>;
+  resetFailedLoginAttempts(id: string): Promise<void>;
+  setTwoFactorSecret(id: string, secret: string): Promise<void>;
+  enableTwoFactor(id: string, recoveryCodeHashes: string[]): Promise<void>;
+  consumeTwoFactorRecoveryCode(id: string, recoveryCodeHash: string): Promise<boolean>;
+  disableTwoFactor(id: string): Promise<void>;
+  linkSsoIdentity(id: string, issuer: string, subject: string): Promise<void>;
+  getUsers(filters?: { search?: string; profile?: string; isActive?: boolean }, scope?: AccessScope): Promise<UserWithWorkGroups[]>;
   
   // Work Group operations
   getWorkGroup(id: string): Promise<WorkGroup | undefined>;
@@ -43,11 +138,17 @@ export interface IStorage {
   createWorkGroup(workGroup: InsertWorkGroup): Promise<WorkGroup>;
   updateWorkGroup(id: string, workGroup: Partial<InsertWorkGroup>): Promise<WorkGroup>;
   deactivateWorkGroup(id: string): Promise<void>;
-  getWorkGroups(filters?: { search?: string; isActive?: boolean }): Promise<WorkGroupWithUsers[]>;
+  getWorkGroups(filters?: { search?: string; isActive?: boolean }, scope?: AccessScope): Promise<WorkGroupWithUsers[]>;
   
   // User Work Group operations
   addUserToWorkGroup(userId: string, groupId: string): Promise<void>;
   removeUserFromWorkGroup(userId: string, groupId: string): Promise<void>;
+  addUsersToWorkGroup(groupId: string, userIds: string[]): Promise<string[]>;
+  removeUsersFromWorkGroup(groupId: string, userIds: string[]): Promise<string[]>;
+  getUserWorkGroupIds(userId: string): Promise<string[]>;
+  
+  // Work group scope operations
+  isRecordInScope(recordType: ScopedRecordType, id: string, scope: AccessScope): Promise<boolean>;
   
   // Entity operations
   getEntity(id: string): Promise<Entity | undefined>;
@@ -55,8 +156,9 @@ export interface IStorage {
   getEntityWithDetails(id: string): Promise<EntityWithAddressesAndContacts | undefined>;
   createEntity(entity: InsertEntity): Promise<Entity>;
   updateEntity(id: string, entity: Partial<InsertEntity>): Promise<Entity>;
+  updateEntityWithDetails(id: string, entity: Partial<InsertEntity>, details: EntityDetailsInput, audit: AuditContext): Promise<void>;
   deactivateEntity(id: string): Promise<void>;
-  getEntities(filters?: { search?: string; type?: string; isActive?: boolean }): Promise<EntityWithAddressesAndContacts[]>;
+  getEntities(filters?: EntityFilters): Promise<EntityWithAddressesAndContacts[]>;
   
   // Entity Address operations
   createEntityAddress(address: InsertEntityAddress): Promise<EntityAddress>;
@@ -69,12 +171,73 @@ export interface IStorage {
   deleteEntityContact(id: string): Promise<void>;
   
   // Session operations
-  createSession(userId: string, token: string, expiresAt: Date, ipAddress?: string, userAgent?: string): Promise<void>;
+  createSession(userId: string, familyId: string, token: string, expiresAt: Date, ipAddress?: string, userAgent?: string): Promise<void>;
   getActiveSession(token: string): Promise<any>;
   deactivateSession(token: string): Promise<void>;
+  getSessionByToken(token: string): Promise<UserSession | undefined>;
+  rotateSession(sessionId: string, token: string, expiresAt: Date, ipAddress?: string, userAgent?: string): Promise<UserSession | undefined>;
+  deactivateSessionFamily(familyId: string): Promise<void>;
+  getActiveSessionByFamily(familyId: string): Promise<UserSession | undefined>;
+  touchSession(id: string): Promise<void>;
+  getSession(id: string): Promise<UserSession | undefined>;
+  getActiveSessions(userId: string): Promise<UserSession[]>;
+  deactivateUserSessions(userId: string, exceptFamilyId?: string): Promise<void>;
+  
+  // System config operations
+  getSystemConfig(key: string): Promise<SystemConfig | undefined>;
+  createSystemConfig(key: string, value: string, description?: string): Promise<void>;
+  
+  // Profile permission operations
+  getProfilePermissions(profile?: UserProfile): Promise<ProfilePermission[]>;
+  createProfilePermissions(permissions: typeof profilePermissions.$inferInsert[]): Promise<void>;
+  deleteProfilePermission(profile: UserProfile, module: PermissionModule, action: PermissionAction): Promise<void>;
+  getWorkGroupPermissions(groupId?: string): Promise<WorkGroupPermission[]>;
+  setWorkGroupPermission(override: typeof workGroupPermissions.$inferInsert): Promise<void>;
+  deleteWorkGroupPermission(groupId: string, profile: UserProfile, module: PermissionModule, action: PermissionAction): Promise<void>;
+  
+  // Auth attempt operations
+  createAuthAttempt(attempt: InsertAuthAttempt): Promise<void>;
+  countRecentAuthAttempts(filters: { kind: InsertAuthAttempt['kind']; since: Date; ipAddress?: string; email?: string }): Promise<number>;
+  
+  // Password reset token operations
+  createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date, ipAddress?: string): Promise<void>;
+  getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  markPasswordResetTokenUsed(id: string): Promise<boolean>;
+  invalidatePasswordResetTokens(userId: string): Promise<void>;
+  
+  // SSO login ticket operations
+  createSsoLoginTicket(userId: string, ticketHash: string, expiresAt: Date): Promise<void>;
+  consumeSsoLoginTicket(ticketHash: string): Promise<string | undefined>;
+  
+  // Password history operations
+  addPasswordHistory(userId: string, passwordHash: string): Promise<void>;
+  getPasswordHistory(userId: string, limit: number): Promise<PasswordHistory[]>;
+  
+  // API key operations
+  getApiKeys(): Promise<ApiKeyWithOwner[]>;
+  getApiKey(id: string): Promise<ApiKey | undefined>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  createApiKey(apiKey: typeof apiKeys.$inferInsert): Promise<ApiKey>;
+  updateApiKeySecret(id: string, keyPrefix: string, keyHash: string): Promise<ApiKey>;
+  revokeApiKey(id: string): Promise<void>;
+  touchApiKey(id: string, ipAddress?: string): Promise<void>;
+  
+  // Email outbox operations
+  createOutboxEmail(email: InsertOutboxEmail): Promise<OutboxEmail>;
+  claimDueOutboxEmails(limit: number, leaseUntil: Date): Promise<OutboxEmail[]>;
+  markOutboxEmailSent(id: string): Promise<void>;
+  markOutboxEmailFailed(id: string, error: string, nextAttemptAt: Date | null): Promise<void>;
+  
+  // Delegation operations
+  getDelegations(): Promise<DelegationWithUsers[]>;
+  getDelegation(id: string): Promise<Delegation | undefined>;
+  getActiveDelegations(toUserId: string): Promise<Delegation[]>;
+  createDelegation(delegation: typeof delegations.$inferInsert): Promise<Delegation>;
+  revokeDelegation(id: string, revokedBy: string): Promise<Delegation>;
   
   // Audit operations
   createAuditLog(log: InsertAuditLog): Promise<void>;
+  getRecordAuditLogs(table: string, recordId: string): Promise<AuditLogWithUser[]>;
   
   // Dashboard stats
   getDashboardStats(): Promise<{
@@ -86,19 +249,35 @@ export interface IStorage {
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: Database = defaultDb) {}
+
+  // Runs the work against a storage bound to one transaction, which rolls back if the work throws
+  async transaction<T>(work: (storage: DatabaseStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction(tx => work(new DatabaseStorage(tx)));
+  }
+
   // User operations
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user;
   }
 
+  // Case-insensitive, since providers and users do not agree on the case of an address
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
+    const [user] = await this.db.select().from(users).where(eq(sql`lower(${users.email})`, email.toLowerCase()));
+    return user;
+  }
+
+  async getUserBySsoSubject(issuer: string, subject: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(and(eq(users.ssoIssuer, issuer), eq(users.ssoSubject, subject)));
     return user;
   }
 
   async getUserWithWorkGroups(id: string): Promise<UserWithWorkGroups | undefined> {
-    const result = await db.query.users.findFirst({
+    const result = await this.db.query.users.findFirst({
       where: eq(users.id, id),
       with: {
         userWorkGroups: {
@@ -112,12 +291,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createUser(user: InsertUser): Promise<User> {
-    const [newUser] = await db.insert(users).values(user).returning();
+    const [newUser] = await this.db.insert(users).values(user).returning();
     return newUser;
   }
 
   async updateUser(id: string, userData: Partial<InsertUser>): Promise<User> {
-    const [updatedUser] = await db
+    const [updatedUser] = await this.db
       .update(users)
       .set({ ...userData, updatedAt: new Date() })
       .where(eq(users.id, id))
@@ -126,21 +305,107 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateUserLastLogin(id: string, lastLogin: Date): Promise<void> {
-    await db
+    await this.db
       .update(users)
       .set({ lastLogin, updatedAt: new Date() })
       .where(eq(users.id, id));
   }
 
+  // Every password change goes through here so the history stays complete
+  async updateUserPassword(id: string, passwordHash: string, options: { mustChangePassword: boolean; updatedBy: string }): Promise<void> {
+    await this.transaction(async (tx) => {
+      await tx.db
+        .update(users)
+        .set({
+          password: passwordHash,
+          temporaryPassword: options.mustChangePassword,
+          mustChangePassword: options.mustChangePassword,
+          passwordChangedAt: new Date(),
+          updatedAt: new Date(),
+          updatedBy: options.updatedBy,
+        })
+        .where(eq(users.id, id));
+
+      await tx.addPasswordHistory(id, passwordHash);
+    });
+  }
+
   async deactivateUser(id: string): Promise<void> {
-    await db
+    await this.db
       .update(users)
       .set({ isActive: false, updatedAt: new Date() })
       .where(eq(users.id, id));
+
+    await this.deactivateUserSessions(id);
+  }
+
+  async incrementFailedLoginAttempts(id: string): Promise<number> {
+    const [updatedUser] = await this.db
+      .update(users)
+      .set({ failedLoginAttempts: sql`${users.failedLoginAttempts} + 1` })
+      .where(eq(users.id, id))
+      .returning({ failedLoginAttempts: users.failedLoginAttempts });
+    return updatedUser?.failedLoginAttempts ?? 0;
+  }
+
+  async lockUser(id: string, lockedUntil: Date): Promise<void> {
+    // The counter restarts so the user gets the full allowance again once the lock expires
+    await this.db
+      .update(users)
+      .set({ lockedUntil, failedLoginAttempts: 0 })
+      .where(eq(users.id, id));
+  }
+
+  async resetFailedLoginAttempts(id: string): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ failedLoginAttempts: 0, lockedUntil: null })
+      .where(eq(users.id, id));
+  }
+
+  async setTwoFactorSecret(id: string, secret: string): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ twoFactorSecret: secret, twoFactorEnabled: false, updatedAt: new Date() })
+      .where(eq(users.id, id));
+  }
+
+  async enableTwoFactor(id: string, recoveryCodeHashes: string[]): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ twoFactorEnabled: true, twoFactorRecoveryCodes: recoveryCodeHashes, updatedAt: new Date() })
+      .where(eq(users.id, id));
+  }
+
+  // Removes the code in the same statement that checks it, so concurrent logins cannot both use it
+  async consumeTwoFactorRecoveryCode(id: string, recoveryCodeHash: string): Promise<boolean> {
+    const [updatedUser] = await this.db
+      .update(users)
+      .set({ twoFactorRecoveryCodes: sql`(${users.twoFactorRecoveryCodes}::jsonb - ${recoveryCodeHash}::text)::json` })
+      .where(and(
+        eq(users.id, id),
+        sql`${users.twoFactorRecoveryCodes}::jsonb @> jsonb_build_array(${recoveryCodeHash}::text)`,
+      ))
+      .returning({ id: users.id });
+    return !!updatedUser;
+  }
+
+  async disableTwoFactor(id: string): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ twoFactorEnabled: false, twoFactorSecret: null, twoFactorRecoveryCodes: null, updatedAt: new Date() })
+      .where(eq(users.id, id));
+  }
+
+  async linkSsoIdentity(id: string, issuer: string, subject: string): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ ssoIssuer: issuer, ssoSubject: subject, updatedAt: new Date() })
+      .where(eq(users.id, id));
   }
 
-  async getUsers(filters?: { search?: string; profile?: string; isActive?: boolean }): Promise<UserWithWorkGroups[]> {
-    let query = db.query.users.findMany({
+  async getUsers(filters?: { search?: string; profile?: string; isActive?: boolean }, scope?: AccessScope): Promise<UserWithWorkGroups[]> {
+    let query = this.db.query.users.findMany({
       with: {
         userWorkGroups: {
           with: {
@@ -152,10 +417,10 @@ export class DatabaseStorage implements IStorage {
     });
 
     // Apply filters if needed
-    if (filters) {
+    if (filters || scope) {
       const conditions = [];
       
-      if (filters.search) {
+      if (filters?.search) {
         conditions.push(
           or(
             ilike(users.firstName, `%${filters.search}%`),
@@ -165,16 +430,21 @@ export class DatabaseStorage implements IStorage {
         );
       }
       
-      if (filters.profile) {
+      if (filters?.profile) {
         conditions.push(eq(users.profile, filters.profile as any));
       }
       
-      if (filters.isActive !== undefined) {
+      if (filters?.isActive !== undefined) {
         conditions.push(eq(users.isActive, filters.isActive));
       }
 
+      const scopeCondition = this.getScopeCondition('users', scope);
+      if (scopeCondition) {
+        conditions.push(scopeCondition);
+      }
+
       if (conditions.length > 0) {
-        query = db.query.users.findMany({
+        query = this.db.query.users.findMany({
           where: and(...conditions),
           with: {
             userWorkGroups: {
@@ -194,17 +464,17 @@ export class DatabaseStorage implements IStorage {
 
   // Work Group operations
   async getWorkGroup(id: string): Promise<WorkGroup | undefined> {
-    const [workGroup] = await db.select().from(workGroups).where(eq(workGroups.id, id));
+    const [workGroup] = await this.db.select().from(workGroups).where(eq(workGroups.id, id));
     return workGroup;
   }
 
   async getWorkGroupByName(name: string): Promise<WorkGroup | undefined> {
-    const [workGroup] = await db.select().from(workGroups).where(eq(workGroups.name, name));
+    const [workGroup] = await this.db.select().from(workGroups).where(eq(workGroups.name, name));
     return workGroup;
   }
 
   async getWorkGroupWithUsers(id: string): Promise<WorkGroupWithUsers | undefined> {
-    const result = await db.query.workGroups.findFirst({
+    const result = await this.db.query.workGroups.findFirst({
       where: eq(workGroups.id, id),
       with: {
         userWorkGroups: {
@@ -218,12 +488,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createWorkGroup(workGroup: InsertWorkGroup): Promise<WorkGroup> {
-    const [newWorkGroup] = await db.insert(workGroups).values(workGroup).returning();
+    const [newWorkGroup] = await this.db.insert(workGroups).values(workGroup).returning();
     return newWorkGroup;
   }
 
   async updateWorkGroup(id: string, workGroupData: Partial<InsertWorkGroup>): Promise<WorkGroup> {
-    const [updatedWorkGroup] = await db
+    const [updatedWorkGroup] = await this.db
       .update(workGroups)
       .set({ ...workGroupData, updatedAt: new Date() })
       .where(eq(workGroups.id, id))
@@ -232,14 +502,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deactivateWorkGroup(id: string): Promise<void> {
-    await db
+    await this.db
       .update(workGroups)
       .set({ isActive: false, updatedAt: new Date() })
       .where(eq(workGroups.id, id));
   }
 
-  async getWorkGroups(filters?: { search?: string; isActive?: boolean }): Promise<WorkGroupWithUsers[]> {
-    let query = db.query.workGroups.findMany({
+  async getWorkGroups(filters?: { search?: string; isActive?: boolean }, scope?: AccessScope): Promise<WorkGroupWithUsers[]> {
+    let query = this.db.query.workGroups.findMany({
       with: {
         userWorkGroups: {
           with: {
@@ -250,19 +520,24 @@ export class DatabaseStorage implements IStorage {
       orderBy: [desc(workGroups.createdAt)],
     });
 
-    if (filters) {
+    if (filters || scope) {
       const conditions = [];
       
-      if (filters.search) {
+      if (filters?.search) {
         conditions.push(ilike(workGroups.name, `%${filters.search}%`));
       }
       
-      if (filters.isActive !== undefined) {
+      if (filters?.isActive !== undefined) {
         conditions.push(eq(workGroups.isActive, filters.isActive));
       }
 
+      const scopeCondition = this.getScopeCondition('work-groups', scope);
+      if (scopeCondition) {
+        conditions.push(scopeCondition);
+      }
+
       if (conditions.length > 0) {
-        query = db.query.workGroups.findMany({
+        query = this.db.query.workGroups.findMany({
           where: and(...conditions),
           with: {
             userWorkGroups: {
@@ -282,28 +557,102 @@ export class DatabaseStorage implements IStorage {
 
   // User Work Group operations
   async addUserToWorkGroup(userId: string, groupId: string): Promise<void> {
-    await db.insert(userWorkGroups).values({ userId, groupId });
+    await this.db.insert(userWorkGroups).values({ userId, groupId }).onConflictDoNothing();
   }
 
   async removeUserFromWorkGroup(userId: string, groupId: string): Promise<void> {
-    await db
+    await this.db
       .delete(userWorkGroups)
       .where(and(eq(userWorkGroups.userId, userId), eq(userWorkGroups.groupId, groupId)));
   }
 
+  // Returns the users that were actually added, skipping existing members
+  async addUsersToWorkGroup(groupId: string, userIds: string[]): Promise<string[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const rows = await this.db
+      .insert(userWorkGroups)
+      .values(userIds.map(userId => ({ userId, groupId })))
+      .onConflictDoNothing()
+      .returning({ userId: userWorkGroups.userId });
+    return rows.map(row => row.userId);
+  }
+
+  // Returns the users that were actually removed, skipping non-members
+  async removeUsersFromWorkGroup(groupId: string, userIds: string[]): Promise<string[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const rows = await this.db
+      .delete(userWorkGroups)
+      .where(and(eq(userWorkGroups.groupId, groupId), inArray(userWorkGroups.userId, userIds)))
+      .returning({ userId: userWorkGroups.userId });
+    return rows.map(row => row.userId);
+  }
+
+  async getUserWorkGroupIds(userId: string): Promise<string[]> {
+    const rows = await this.db
+      .select({ groupId: userWorkGroups.groupId })
+      .from(userWorkGroups)
+      .where(eq(userWorkGroups.userId, userId));
+    return rows.map(row => row.groupId);
+  }
+
+  // Work group scope operations
+  // Narrows a query on the record type to the scope; users always reach their own account
+  private getScopeCondition(recordType: ScopedRecordType, scope?: AccessScope): SQL | undefined {
+    if (!scope || scope.workGroupIds === null) {
+      return undefined;
+    }
+
+    const workGroupIds = scope.workGroupIds;
+
+    switch (recordType) {
+      case 'users':
+        return workGroupIds.length > 0
+          ? or(
+              eq(users.id, scope.userId),
+              inArray(
+                users.id,
+                this.db.select({ id: userWorkGroups.userId }).from(userWorkGroups).where(inArray(userWorkGroups.groupId, workGroupIds))
+              )
+            )
+          : eq(users.id, scope.userId);
+      case 'work-groups':
+        return workGroupIds.length > 0 ? inArray(workGroups.id, workGroupIds) : sql`false`;
+    }
+  }
+
+  async isRecordInScope(recordType: ScopedRecordType, id: string, scope: AccessScope): Promise<boolean> {
+    const scopeCondition = this.getScopeCondition(recordType, scope);
+    if (!scopeCondition) {
+      return true;
+    }
+
+    const table = recordType === 'users' ? users : workGroups;
+    const [record] = await this.db
+      .select({ id: table.id })
+      .from(table)
+      .where(and(eq(table.id, id), scopeCondition));
+    return !!record;
+  }
+
   // Entity operations
   async getEntity(id: string): Promise<Entity | undefined> {
-    const [entity] = await db.select().from(entities).where(eq(entities.id, id));
+    const [entity] = await this.db.select().from(entities).where(eq(entities.id, id));
     return entity;
   }
 
   async getEntityByDocument(document: string): Promise<Entity | undefined> {
-    const [entity] = await db.select().from(entities).where(eq(entities.document, document));
+    const [entity] = await this.db.select().from(entities).where(eq(entities.document, document));
     return entity;
   }
 
   async getEntityWithDetails(id: string): Promise<EntityWithAddressesAndContacts | undefined> {
-    const result = await db.query.entities.findFirst({
+    const result = await this.db.query.entities.findFirst({
       where: eq(entities.id, id),
       with: {
         addresses: true,
@@ -314,12 +663,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createEntity(entity: InsertEntity): Promise<Entity> {
-    const [newEntity] = await db.insert(entities).values(entity).returning();
+    const [newEntity] = await this.db.insert(entities).values(entity).returning();
     return newEntity;
   }
 
   async updateEntity(id: string, entityData: Partial<InsertEntity>): Promise<Entity> {
-    const [updatedEntity] = await db
+    const [updatedEntity] = await this.db
       .update(entities)
       .set({ ...entityData, updatedAt: new Date() })
       .where(eq(entities.id, id))
@@ -327,15 +676,59 @@ export class DatabaseStorage implements IStorage {
     return updatedEntity;
   }
 
+  // The entity, its addresses and contacts and their audit entries are saved together or not at all
+  async updateEntityWithDetails(id: string, entityData: Partial<InsertEntity>, details: EntityDetailsInput, audit: AuditContext): Promise<void> {
+    await this.transaction(async (tx) => {
+      const existingEntity = await tx.getEntityWithDetails(id);
+      const { addresses: existingAddresses = [], contacts: existingContacts = [], ...oldValues } = existingEntity ?? {};
+      const updatedEntity = await tx.updateEntity(id, entityData);
+      await tx.createAuditLog({ ...audit, action: 'UPDATE', table: 'entities', recordId: id, oldValues, newValues: updatedEntity });
+
+      if (details.addresses) {
+        const { created, updated, deleted } = diffEntityChildren(existingAddresses, details.addresses);
+
+        for (const { id: _, ...address } of created) {
+          const newAddress = await tx.createEntityAddress({ ...address, entityId: id });
+          await tx.createAuditLog({ ...audit, action: 'CREATE', table: 'entity_addresses', recordId: newAddress.id, newValues: newAddress });
+        }
+        for (const { current, data: { id: _, ...address } } of updated) {
+          const updatedAddress = await tx.updateEntityAddress(current.id, address);
+          await tx.createAuditLog({ ...audit, action: 'UPDATE', table: 'entity_addresses', recordId: current.id, oldValues: current, newValues: updatedAddress });
+        }
+        for (const address of deleted) {
+          await tx.deleteEntityAddress(address.id);
+          await tx.createAuditLog({ ...audit, action: 'DELETE', table: 'entity_addresses', recordId: address.id, oldValues: address });
+        }
+      }
+
+      if (details.contacts) {
+        const { created, updated, deleted } = diffEntityChildren(existingContacts, details.contacts);
+
+        for (const { id: _, ...contact } of created) {
+          const newContact = await tx.createEntityContact({ ...contact, entityId: id });
+          await tx.createAuditLog({ ...audit, action: 'CREATE', table: 'entity_contacts', recordId: newContact.id, newValues: newContact });
+        }
+        for (const { current, data: { id: _, ...contact } } of updated) {
+          const updatedContact = await tx.updateEntityContact(current.id, contact);
+          await tx.createAuditLog({ ...audit, action: 'UPDATE', table: 'entity_contacts', recordId: current.id, oldValues: current, newValues: updatedContact });
+        }
+        for (const contact of deleted) {
+          await tx.deleteEntityContact(contact.id);
+          await tx.createAuditLog({ ...audit, action: 'DELETE', table: 'entity_contacts', recordId: contact.id, oldValues: contact });
+        }
+      }
+    });
+  }
+
   async deactivateEntity(id: string): Promise<void> {
-    await db
+    await this.db
       .update(entities)
       .set({ isActive: false, updatedAt: new Date() })
       .where(eq(entities.id, id));
   }
 
-  async getEntities(filters?: { search?: string; type?: string; isActive?: boolean }): Promise<EntityWithAddressesAndContacts[]> {
-    let query = db.query.entities.findMany({
+  async getEntities(filters?: EntityFilters): Promise<EntityWithAddressesAndContacts[]> {
+    let query = this.db.query.entities.findMany({
       with: {
         addresses: true,
         contacts: true,
@@ -350,7 +743,9 @@ export class DatabaseStorage implements IStorage {
         conditions.push(
           or(
             ilike(entities.name, `%${filters.search}%`),
-            ilike(entities.document, `%${filters.search}%`)
+            filters.exactDocumentSearch
+              ? eq(entities.document, filters.search.replace(/\D/g, ''))
+              : ilike(entities.document, `%${filters.search}%`)
           )
         );
       }
@@ -364,7 +759,7 @@ export class DatabaseStorage implements IStorage {
       }
 
       if (conditions.length > 0) {
-        query = db.query.entities.findMany({
+        query = this.db.query.entities.findMany({
           where: and(...conditions),
           with: {
             addresses: true,
@@ -381,12 +776,12 @@ export class DatabaseStorage implements IStorage {
 
   // Entity Address operations
   async createEntityAddress(address: InsertEntityAddress): Promise<EntityAddress> {
-    const [newAddress] = await db.insert(entityAddresses).values(address).returning();
+    const [newAddress] = await this.db.insert(entityAddresses).values(address).returning();
     return newAddress;
   }
 
   async updateEntityAddress(id: string, addressData: Partial<InsertEntityAddress>): Promise<EntityAddress> {
-    const [updatedAddress] = await db
+    const [updatedAddress] = await this.db
       .update(entityAddresses)
       .set({ ...addressData, updatedAt: new Date() })
       .where(eq(entityAddresses.id, id))
@@ -395,17 +790,17 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteEntityAddress(id: string): Promise<void> {
-    await db.delete(entityAddresses).where(eq(entityAddresses.id, id));
+    await this.db.delete(entityAddresses).where(eq(entityAddresses.id, id));
   }
 
   // Entity Contact operations
   async createEntityContact(contact: InsertEntityContact): Promise<EntityContact> {
-    const [newContact] = await db.insert(entityContacts).values(contact).returning();
+    const [newContact] = await this.db.insert(entityContacts).values(contact).returning();
     return newContact;
   }
 
   async updateEntityContact(id: string, contactData: Partial<InsertEntityContact>): Promise<EntityContact> {
-    const [updatedContact] = await db
+    const [updatedContact] = await this.db
       .update(entityContacts)
       .set({ ...contactData, updatedAt: new Date() })
       .where(eq(entityContacts.id, id))
@@ -414,13 +809,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteEntityContact(id: string): Promise<void> {
-    await db.delete(entityContacts).where(eq(entityContacts.id, id));
+    await this.db.delete(entityContacts).where(eq(entityContacts.id, id));
   }
 
   // Session operations
-  async createSession(userId: string, token: string, expiresAt: Date, ipAddress?: string, userAgent?: string): Promise<void> {
-    await db.insert(userSessions).values({
+  async createSession(userId: string, familyId: string, token: string, expiresAt: Date, ipAddress?: string, userAgent?: string): Promise<void> {
+    await this.db.insert(userSessions).values({
       userId,
+      familyId,
       token,
       expiresAt,
       ipAddress,
@@ -429,7 +825,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getActiveSession(token: string): Promise<any> {
-    const [session] = await db
+    const [session] = await this.db
       .select()
       .from(userSessions)
       .where(and(eq(userSessions.token, token), eq(userSessions.isActive, true)));
@@ -437,15 +833,431 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deactivateSession(token: string): Promise<void> {
-    await db
+    await this.db
       .update(userSessions)
       .set({ isActive: false })
       .where(eq(userSessions.token, token));
   }
 
+  async getSessionByToken(token: string): Promise<UserSession | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(userSessions)
+      .where(eq(userSessions.token, token));
+    return session;
+  }
+
+  async rotateSession(sessionId: string, token: string, expiresAt: Date, ipAddress?: string, userAgent?: string): Promise<UserSession | undefined> {
+    const now = new Date();
+
+    return this.transaction(async (tx) => {
+      // Only an active row can be rotated; losing this race means the token was already used
+      const [rotatedSession] = await tx.db
+        .update(userSessions)
+        .set({ isActive: false, rotatedAt: now })
+        .where(and(eq(userSessions.id, sessionId), eq(userSessions.isActive, true)))
+        .returning();
+
+      if (!rotatedSession) {
+        return undefined;
+      }
+
+      const [newSession] = await tx.db
+        .insert(userSessions)
+        .values({
+          userId: rotatedSession.userId,
+          familyId: rotatedSession.familyId,
+          token,
+          expiresAt,
+          ipAddress,
+          userAgent,
+          lastUsed: now,
+        })
+        .returning();
+      return newSession;
+    });
+  }
+
+  async deactivateSessionFamily(familyId: string): Promise<void> {
+    await this.db
+      .update(userSessions)
+      .set({ isActive: false })
+      .where(eq(userSessions.familyId, familyId));
+  }
+
+  async getActiveSessionByFamily(familyId: string): Promise<UserSession | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(userSessions)
+      .where(and(eq(userSessions.familyId, familyId), eq(userSessions.isActive, true)));
+    return session;
+  }
+
+  async touchSession(id: string): Promise<void> {
+    await this.db
+      .update(userSessions)
+      .set({ lastUsed: new Date() })
+      .where(eq(userSessions.id, id));
+  }
+
+  async getSession(id: string): Promise<UserSession | undefined> {
+    const [session] = await this.db.select().from(userSessions).where(eq(userSessions.id, id));
+    return session;
+  }
+
+  async getActiveSessions(userId: string): Promise<UserSession[]> {
+    return this.db
+      .select()
+      .from(userSessions)
+      .where(and(
+        eq(userSessions.userId, userId),
+        eq(userSessions.isActive, true),
+        gt(userSessions.expiresAt, new Date())
+      ))
+      .orderBy(desc(userSessions.lastUsed));
+  }
+
+  async deactivateUserSessions(userId: string, exceptFamilyId?: string): Promise<void> {
+    const conditions = [eq(userSessions.userId, userId), eq(userSessions.isActive, true)];
+
+    if (exceptFamilyId) {
+      conditions.push(ne(userSessions.familyId, exceptFamilyId));
+    }
+
+    await this.db
+      .update(userSessions)
+      .set({ isActive: false })
+      .where(and(...conditions));
+  }
+
+  // System config operations
+  async getSystemConfig(key: string): Promise<SystemConfig | undefined> {
+    const [config] = await this.db
+      .select()
+      .from(systemConfigs)
+      .where(eq(systemConfigs.key, key));
+    return config;
+  }
+
+  async createSystemConfig(key: string, value: string, description?: string): Promise<void> {
+    await this.db.insert(systemConfigs).values({ key, value, description });
+  }
+
+  // Profile permission operations
+  async getProfilePermissions(profile?: UserProfile): Promise<ProfilePermission[]> {
+    return this.db
+      .select()
+      .from(profilePermissions)
+      .where(profile ? eq(profilePermissions.profile, profile) : undefined)
+      .orderBy(profilePermissions.profile, profilePermissions.module, profilePermissions.action);
+  }
+
+  async createProfilePermissions(permissions: typeof profilePermissions.$inferInsert[]): Promise<void> {
+    if (permissions.length === 0) {
+      return;
+    }
+
+    await this.db.insert(profilePermissions).values(permissions).onConflictDoNothing();
+  }
+
+  async deleteProfilePermission(profile: UserProfile, module: PermissionModule, action: PermissionAction): Promise<void> {
+    await this.db
+      .delete(profilePermissions)
+      .where(and(
+        eq(profilePermissions.profile, profile),
+        eq(profilePermissions.module, module),
+        eq(profilePermissions.action, action)
+      ));
+  }
+
+  async getWorkGroupPermissions(groupId?: string): Promise<WorkGroupPermission[]> {
+    return this.db
+      .select()
+      .from(workGroupPermissions)
+      .where(groupId ? eq(workGroupPermissions.groupId, groupId) : undefined)
+      .orderBy(workGroupPermissions.profile, workGroupPermissions.module, workGroupPermissions.action);
+  }
+
+  async setWorkGroupPermission(override: typeof workGroupPermissions.$inferInsert): Promise<void> {
+    await this.db
+      .insert(workGroupPermissions)
+      .values(override)
+      .onConflictDoUpdate({
+        target: [workGroupPermissions.groupId, workGroupPermissions.profile, workGroupPermissions.module, workGroupPermissions.action],
+        set: { effect: override.effect, createdBy: override.createdBy, createdAt: new Date() },
+      });
+  }
+
+  async deleteWorkGroupPermission(groupId: string, profile: UserProfile, module: PermissionModule, action: PermissionAction): Promise<void> {
+    await this.db
+      .delete(workGroupPermissions)
+      .where(and(
+        eq(workGroupPermissions.groupId, groupId),
+        eq(workGroupPermissions.profile, profile),
+        eq(workGroupPermissions.module, module),
+        eq(workGroupPermissions.action, action)
+      ));
+  }
+
+  // Auth attempt operations
+  async createAuthAttempt(attempt: InsertAuthAttempt): Promise<void> {
+    await this.db.insert(authAttempts).values(attempt);
+  }
+
+  async countRecentAuthAttempts(filters: { kind: InsertAuthAttempt['kind']; since: Date; ipAddress?: string; email?: string }): Promise<number> {
+    const conditions = [
+      eq(authAttempts.kind, filters.kind),
+      gte(authAttempts.createdAt, filters.since),
+    ];
+
+    if (filters.ipAddress) {
+      conditions.push(eq(authAttempts.ipAddress, filters.ipAddress));
+    }
+
+    if (filters.email) {
+      conditions.push(eq(authAttempts.email, filters.email));
+    }
+
+    const [result] = await this.db
+      .select({ count: count() })
+      .from(authAttempts)
+      .where(and(...conditions));
+    return result?.count ?? 0;
+  }
+
+  // Password reset token operations
+  async createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date, ipAddress?: string): Promise<void> {
+    await this.db.insert(passwordResetTokens).values({
+      userId,
+      tokenHash,
+      expiresAt,
+      ipAddress,
+    });
+  }
+
+  async getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [resetToken] = await this.db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return resetToken;
+  }
+
+  // Returns false when the token was already used or expired, so concurrent resets consume it only once
+  async markPasswordResetTokenUsed(id: string): Promise<boolean> {
+    const now = new Date();
+    const [usedToken] = await this.db
+      .update(passwordResetTokens)
+      .set({ usedAt: now })
+      .where(and(
+        eq(passwordResetTokens.id, id),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, now),
+      ))
+      .returning({ id: passwordResetTokens.id });
+    return !!usedToken;
+  }
+
+  async invalidatePasswordResetTokens(userId: string): Promise<void> {
+    await this.db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+  }
+
+  // SSO login ticket operations
+  async createSsoLoginTicket(userId: string, ticketHash: string, expiresAt: Date): Promise<void> {
+    await this.db.insert(ssoLoginTickets).values({ userId, ticketHash, expiresAt });
+  }
+
+  // Returns the ticket's user only the first time, so a leaked ticket cannot open a second session
+  async consumeSsoLoginTicket(ticketHash: string): Promise<string | undefined> {
+    const now = new Date();
+    const [usedTicket] = await this.db
+      .update(ssoLoginTickets)
+      .set({ usedAt: now })
+      .where(and(
+        eq(ssoLoginTickets.ticketHash, ticketHash),
+        isNull(ssoLoginTickets.usedAt),
+        gt(ssoLoginTickets.expiresAt, now),
+      ))
+      .returning({ userId: ssoLoginTickets.userId });
+    return usedTicket?.userId;
+  }
+
+  // Password history operations
+  async addPasswordHistory(userId: string, passwordHash: string): Promise<void> {
+    await this.db.insert(passwordHistory).values({ userId, passwordHash });
+  }
+
+  async getPasswordHistory(userId: string, limit: number): Promise<PasswordHistory[]> {
+    return this.db
+      .select()
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt))
+      .limit(limit);
+  }
+
+  // API key operations
+  async getApiKeys(): Promise<ApiKeyWithOwner[]> {
+    return this.db.query.apiKeys.findMany({
+      with: {
+        owner: true,
+      },
+      orderBy: [desc(apiKeys.createdAt)],
+    });
+  }
+
+  async getApiKey(id: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await this.db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    return apiKey;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await this.db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return apiKey;
+  }
+
+  async createApiKey(apiKey: typeof apiKeys.$inferInsert): Promise<ApiKey> {
+    const [newApiKey] = await this.db.insert(apiKeys).values(apiKey).returning();
+    return newApiKey;
+  }
+
+  async updateApiKeySecret(id: string, keyPrefix: string, keyHash: string): Promise<ApiKey> {
+    const [updatedApiKey] = await this.db
+      .update(apiKeys)
+      .set({ keyPrefix, keyHash, updatedAt: new Date() })
+      .where(eq(apiKeys.id, id))
+      .returning();
+    return updatedApiKey;
+  }
+
+  async revokeApiKey(id: string): Promise<void> {
+    await this.db
+      .update(apiKeys)
+      .set({ revokedAt: new Date(), updatedAt: new Date() })
+      .where(eq(apiKeys.id, id));
+  }
+
+  async touchApiKey(id: string, ipAddress?: string): Promise<void> {
+    await this.db
+      .update(apiKeys)
+      .set({ lastUsedAt: new Date(), lastUsedIp: ipAddress })
+      .where(eq(apiKeys.id, id));
+  }
+
+  // Email outbox operations
+  async createOutboxEmail(email: InsertOutboxEmail): Promise<OutboxEmail> {
+    const [newEmail] = await this.db.insert(emailOutbox).values(email).returning();
+    return newEmail;
+  }
+
+  // Pushes nextAttemptAt forward while sending, so another worker does not pick the same emails
+  async claimDueOutboxEmails(limit: number, leaseUntil: Date): Promise<OutboxEmail[]> {
+    const dueEmails = this.db
+      .select({ id: emailOutbox.id })
+      .from(emailOutbox)
+      .where(and(
+        eq(emailOutbox.status, 'PENDING'),
+        lte(emailOutbox.nextAttemptAt, new Date())
+      ))
+      .orderBy(emailOutbox.nextAttemptAt)
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return this.db
+      .update(emailOutbox)
+      .set({ nextAttemptAt: leaseUntil })
+      .where(inArray(emailOutbox.id, dueEmails))
+      .returning();
+  }
+
+  // The body is cleared once the email is done with, since it may carry a temporary password or recovery link
+  async markOutboxEmailSent(id: string): Promise<void> {
+    await this.db
+      .update(emailOutbox)
+      .set({
+        status: 'SENT',
+        attempts: sql`${emailOutbox.attempts} + 1`,
+        lastError: null,
+        sentAt: new Date(),
+        text: '',
+        html: '',
+      })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // A null nextAttemptAt gives up on the email, clearing its body like a sent one
+  async markOutboxEmailFailed(id: string, error: string, nextAttemptAt: Date | null): Promise<void> {
+    await this.db
+      .update(emailOutbox)
+      .set({
+        status: nextAttemptAt ? 'PENDING' : 'FAILED',
+        attempts: sql`${emailOutbox.attempts} + 1`,
+        lastError: error,
+        ...(nextAttemptAt ? { nextAttemptAt } : { text: '', html: '' }),
+      })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // Delegation operations
+  async getDelegations(): Promise<DelegationWithUsers[]> {
+    return this.db.query.delegations.findMany({
+      with: {
+        fromUser: true,
+        toUser: true,
+      },
+      orderBy: [desc(delegations.startsAt)],
+    });
+  }
+
+  async getDelegation(id: string): Promise<Delegation | undefined> {
+    const [delegation] = await this.db.select().from(delegations).where(eq(delegations.id, id));
+    return delegation;
+  }
+
+  // Delegations expire on their own: only those within their period and not revoked are returned
+  async getActiveDelegations(toUserId: string): Promise<Delegation[]> {
+    const now = new Date();
+    return this.db
+      .select()
+      .from(delegations)
+      .where(and(
+        eq(delegations.toUserId, toUserId),
+        lte(delegations.startsAt, now),
+        gt(delegations.endsAt, now),
+        isNull(delegations.revokedAt)
+      ));
+  }
+
+  async createDelegation(delegation: typeof delegations.$inferInsert): Promise<Delegation> {
+    const [newDelegation] = await this.db.insert(delegations).values(delegation).returning();
+    return newDelegation;
+  }
+
+  async revokeDelegation(id: string, revokedBy: string): Promise<Delegation> {
+    const [revokedDelegation] = await this.db
+      .update(delegations)
+      .set({ revokedAt: new Date(), revokedBy })
+      .where(eq(delegations.id, id))
+      .returning();
+    return revokedDelegation;
+  }
+
   // Audit operations
   async createAuditLog(log: InsertAuditLog): Promise<void> {
-    await db.insert(auditLogs).values(log);
+    await this.db.insert(auditLogs).values(log);
+  }
+
+  async getRecordAuditLogs(table: string, recordId: string): Promise<AuditLogWithUser[]> {
+    return this.db.query.auditLogs.findMany({
+      where: and(eq(auditLogs.table, table), eq(auditLogs.recordId, recordId)),
+      with: {
+        user: true,
+      },
+      orderBy: [desc(auditLogs.createdAt)],
+    });
   }
 
   // Dashboard stats
@@ -458,10 +1270,10 @@ export class DatabaseStorage implements IStorage {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
 
-    const [totalUsersResult] = await db.select({ count: users.id }).from(users).where(eq(users.isActive, true));
-    const [totalEntitiesResult] = await db.select({ count: entities.id }).from(entities).where(eq(entities.isActive, true));
-    const [activeGroupsResult] = await db.select({ count: workGroups.id }).from(workGroups).where(eq(workGroups.isActive, true));
-    const [todayActivityResult] = await db.select({ count: auditLogs.id }).from(auditLogs).where(eq(auditLogs.createdAt, today));
+    const [totalUsersResult] = await this.db.select({ count: users.id }).from(users).where(eq(users.isActive, true));
+    const [totalEntitiesResult] = await this.db.select({ count: entities.id }).from(entities).where(eq(entities.isActive, true));
+    const [activeGroupsResult] = await this.db.select({ count: workGroups.id }).from(workGroups).where(eq(workGroups.isActive, true));
+    const [todayActivityResult] = await this.db.select({ count: auditLogs.id }).from(auditLogs).where(eq(auditLogs.createdAt, today));
 
     return {
       totalUsers: totalUsersResult?.count || 0,
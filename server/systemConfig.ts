@@ -0,0 +1,134 @@
+import memoize from 'memoizee';
+import { storage } from './storage';
+
+// Settings stored in system_configs, with the value used when a row is missing or inactive
+export const SYSTEM_CONFIG_DEFAULTS: Record<string, { value: string; description: string }> = {
+  'session.idle_timeout_minutes': {
+    value: '30',
+    description: 'Minutos de inatividade após os quais a sessão expira',
+  },
+  'login.max_failed_attempts': {
+    value: '5',
+    description: 'Tentativas de login malsucedidas antes do bloqueio temporário da conta',
+  },
+  'login.lockout_minutes': {
+    value: '15',
+    description: 'Duração do bloqueio temporário da conta, em minutos',
+  },
+  'login.ip_max_failed_attempts': {
+    value: '20',
+    description: 'Tentativas de login malsucedidas permitidas por endereço IP dentro da janela',
+  },
+  'login.ip_window_minutes': {
+    value: '15',
+    description: 'Janela de contagem das tentativas por endereço IP, em minutos',
+  },
+  'password_reset.max_requests': {
+    value: '5',
+    description: 'Solicitações de recuperação de senha permitidas por endereço IP ou conta dentro da janela',
+  },
+  'password.min_length': {
+    value: '10',
+    description: 'Tamanho mínimo da senha',
+  },
+  'password.require_uppercase': {
+    value: 'true',
+    description: 'Exige ao menos uma letra maiúscula na senha',
+  },
+  'password.require_lowercase': {
+    value: 'true',
+    description: 'Exige ao menos uma letra minúscula na senha',
+  },
+  'password.require_digit': {
+    value: 'true',
+    description: 'Exige ao menos um número na senha',
+  },
+  'password.require_symbol': {
+    value: 'false',
+    description: 'Exige ao menos um símbolo na senha',
+  },
+  'password.history_count': {
+    value: '5',
+    description: 'Quantidade de senhas anteriores que não podem ser reutilizadas (0 desativa)',
+  },
+  'password.max_age_days': {
+    value: '0',
+    description: 'Dias até a senha expirar e precisar ser trocada (0 desativa)',
+  },
+  'two_factor.required_profiles': {
+    value: '',
+    description: 'Perfis obrigados a usar autenticação em dois fatores, separados por vírgula (ex.: ADMINISTRATOR,MANAGER)',
+  },
+  'sso.enabled': {
+    value: 'false',
+    description: 'Habilita o login via SSO (OpenID Connect)',
+  },
+  'sso.issuer_url': {
+    value: '',
+    description: 'URL do emissor OpenID Connect (ex.: https://login.empresa.com.br/realms/mec)',
+  },
+  'sso.client_id': {
+    value: '',
+    description: 'Client ID da aplicação no provedor de identidade',
+  },
+  'sso.client_secret': {
+    value: '',
+    description: 'Client secret da aplicação no provedor de identidade',
+  },
+  'sso.redirect_uri': {
+    value: '',
+    description: 'URL de retorno registrada no provedor (padrão: APP_URL + /api/auth/sso/callback)',
+  },
+  'sso.scopes': {
+    value: 'openid email profile',
+    description: 'Escopos solicitados ao provedor de identidade',
+  },
+  'sso.profile_mapping': {
+    value: '[]',
+    description: 'Regras JSON de mapeamento de claims para perfis, ex.: [{"claim":"groups","value":"mec-admins","profile":"ADMINISTRATOR"}]',
+  },
+  'sso.default_profile': {
+    value: '',
+    description: 'Perfil para usuários criados no primeiro login via SSO quando nenhuma regra se aplica (vazio: apenas usuários existentes)',
+  },
+  'sso.allow_insecure_requests': {
+    value: 'false',
+    description: 'Permite provedor via HTTP (somente para testes com provedor local)',
+  },
+};
+
+// Configs are read on every authenticated request, so cache them briefly
+const getCachedConfigValue = memoize(
+  async (key: string): Promise<string | undefined> => {
+    const config = await storage.getSystemConfig(key);
+    return config?.isActive ? config.value : undefined;
+  },
+  { promise: true, maxAge: 60 * 1000 },
+);
+
+export async function getConfigValue(key: string): Promise<string> {
+  const value = await getCachedConfigValue(key);
+  return value ?? SYSTEM_CONFIG_DEFAULTS[key].value;
+}
+
+export async function getConfigNumber(key: string): Promise<number> {
+  const value = Number(await getConfigValue(key));
+  return Number.isFinite(value) ? value : Number(SYSTEM_CONFIG_DEFAULTS[key].value);
+}
+
+export async function getConfigBoolean(key: string): Promise<boolean> {
+  return (await getConfigValue(key)).trim().toLowerCase() === 'true';
+}
+
+export async function seedSystemConfigs() {
+  try {
+    for (const [key, { value, description }] of Object.entries(SYSTEM_CONFIG_DEFAULTS)) {
+      const existingConfig = await storage.getSystemConfig(key);
+      if (!existingConfig) {
+        await storage.createSystemConfig(key, value, description);
+      }
+    }
+  } catch (error) {
+    console.error('Error seeding system configs:', error);
+  }
+}
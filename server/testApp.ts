@@ -0,0 +1,19 @@
+import express from 'express';
+import type { AddressInfo } from 'net';
+import { registerRoutes } from './routes';
+
+// Serves the API on a random local port, so tests can drive the routes over HTTP
+export async function startTestApp() {
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+
+  const server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,19 @@
+import { createRequire } from 'module';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import * as schema from '@shared/schema';
+
+// drizzle-kit's ESM build cannot be loaded by the test runner, so its CommonJS build is used
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)('drizzle-kit/api') as typeof import('drizzle-kit/api');
+
+// An in-memory Postgres with the current schema, so storage queries run against a real database in tests
+export async function createTestDatabase() {
+  const db = drizzle(new PGlite(), { schema });
+
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await db.execute(statement);
+  }
+
+  return db;
+}
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { base32Decode, base32Encode, generateRecoveryCodes, generateTotp, generateTotpSecret, hashRecoveryCode, verifyTotp } from './totp';
+
+// The SHA-1 seed of RFC 6238 Appendix B, "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('generateTotp', () => {
+  // The RFC lists 8-digit codes; ours are their last 6 digits
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+    [20000000000, '353130'],
+  ])('matches the RFC 6238 test vector at %i seconds', (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, seconds * 1000)).toBe(code);
+  });
+});
+
+describe('verifyTotp', () => {
+  const now = new Date('2026-03-10T12:00:10Z').getTime();
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts the codes of the previous, current and next step', () => {
+    vi.useFakeTimers({ now });
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 30 * 1000))).toBe(true);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now))).toBe(true);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now + 30 * 1000))).toBe(true);
+  });
+
+  it('rejects codes two steps away', () => {
+    vi.useFakeTimers({ now });
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 60 * 1000))).toBe(false);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now + 60 * 1000))).toBe(false);
+  });
+
+  it('ignores spaces but rejects malformed codes', () => {
+    vi.useFakeTimers({ now });
+    const code = generateTotp(RFC_SECRET, now);
+
+    expect(verifyTotp(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`)).toBe(true);
+    expect(verifyTotp(RFC_SECRET, code.slice(1))).toBe(false);
+    expect(verifyTotp(RFC_SECRET, 'abcdef')).toBe(false);
+  });
+});
+
+describe('base32', () => {
+  it('decodes what it encodes', () => {
+    const bytes = Buffer.from('12345678901234567890');
+
+    expect(base32Encode(bytes)).toBe(RFC_SECRET);
+    expect(base32Decode(RFC_SECRET)).toEqual(bytes);
+  });
+
+  it('round-trips lengths that do not fill the last character', () => {
+    for (let length = 1; length <= 7; length++) {
+      const bytes = Buffer.from(Array.from({ length }, (_, i) => 250 - i * 31));
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    }
+  });
+
+  it('accepts lowercase, padding and spaces', () => {
+    expect(base32Decode('gezd gnbv=')).toEqual(base32Decode('GEZDGNBV'));
+  });
+
+  it('generates 160-bit secrets', () => {
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+  });
+});
+
+describe('recovery codes', () => {
+  it('are unique and hash the same regardless of case and surrounding spaces', () => {
+    const codes = generateRecoveryCodes();
+
+    expect(new Set(codes).size).toBe(10);
+    expect(codes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+    expect(hashRecoveryCode(` ${codes[0].toUpperCase()} `)).toBe(hashRecoveryCode(codes[0]));
+  });
+});
@@ -6,7 +6,9 @@ import {
   boolean,
   json,
   index,
+  uniqueIndex,
   uuid,
+  integer,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
@@ -24,6 +26,48 @@ export const userProfiles = [
 
 export const entityTypes = ["INDIVIDUAL", "COMPANY"] as const;
 export const contactStatuses = ["ACTIVE", "PRIMARY", "INACTIVE"] as const;
+export const authAttemptKinds = ["LOGIN", "PASSWORD_RESET"] as const;
+export const emailStatuses = ["PENDING", "SENT", "FAILED"] as const;
+
+// Permission catalogue: the actions that apply to each module
+export const permissionActions = ["VIEW", "CREATE", "EDIT", "DELETE", "IMPORT", "EXPORT", "APPROVE", "REVEAL"] as const;
+export const permissionCatalogue = {
+  "dashboard": ["VIEW"],
+  "users": ["VIEW", "CREATE", "EDIT", "DELETE", "IMPORT", "EXPORT"],
+  "user-credentials": ["EDIT"],
+  "user-sessions": ["VIEW", "DELETE"],
+  "impersonation": ["CREATE"],
+  "work-groups": ["VIEW", "CREATE", "EDIT", "DELETE"],
+  "entities": ["VIEW", "CREATE", "EDIT", "DELETE", "IMPORT", "EXPORT"],
+  // Unmasked documents, contacts and addresses of entities: always (VIEW) or one entity at a time, audited (REVEAL)
+  "sensitive-data": ["VIEW", "REVEAL"],
+  "contracts": ["VIEW", "CREATE", "EDIT", "DELETE", "IMPORT", "EXPORT", "APPROVE"],
+  "processes": ["VIEW", "CREATE", "EDIT", "DELETE", "IMPORT", "EXPORT", "APPROVE"],
+  "api-keys": ["VIEW", "CREATE", "EDIT", "DELETE"],
+  "permissions": ["VIEW", "EDIT"],
+  "delegations": ["VIEW", "CREATE", "DELETE"],
+} as const satisfies Record<string, readonly typeof permissionActions[number][]>;
+
+export type PermissionModule = keyof typeof permissionCatalogue;
+export type PermissionAction = typeof permissionActions[number];
+// Written as "module:ACTION", e.g. "entities:EDIT"
+export type Permission = `${PermissionModule}:${PermissionAction}`;
+
+// Work group overrides grant or revoke a permission for one profile within the group
+export const permissionOverrideEffects = ["GRANT", "REVOKE"] as const;
+
+export const permissions = Object.entries(permissionCatalogue).flatMap(
+  ([module, actions]) => actions.map(action => `${module}:${action}` as Permission)
+);
+export const apiKeyScopes = [
+  "dashboard:read",
+  "users:read",
+  "users:write",
+  "work-groups:read",
+  "work-groups:write",
+  "entities:read",
+  "entities:write",
+] as const;
 
 // Session storage table for authentication
 export const sessions = pgTable(
@@ -47,6 +91,17 @@ export const users = pgTable("users", {
   isActive: boolean("is_active").default(true).notNull(),
   temporaryPassword: boolean("temporary_password").default(false).notNull(),
   mustChangePassword: boolean("must_change_password").default(true).notNull(),
+  failedLoginAttempts: integer("failed_login_attempts").default(0).notNull(),
+  lockedUntil: timestamp("locked_until"),
+  twoFactorEnabled: boolean("two_factor_enabled").default(false).notNull(),
+  // Base32 TOTP secret; set during enrollment and kept while two-factor is enabled
+  twoFactorSecret: text("two_factor_secret"),
+  // SHA-256 hashes of the unused recovery codes
+  twoFactorRecoveryCodes: json("two_factor_recovery_codes").$type<string[]>(),
+  passwordChangedAt: timestamp("password_changed_at").defaultNow(),
+  // Identity at the OIDC provider, linked on the first single sign-on
+  ssoIssuer: varchar("sso_issuer", { length: 255 }),
+  ssoSubject: varchar("sso_subject", { length: 255 }),
   lastLogin: timestamp("last_login"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -67,12 +122,16 @@ export const workGroups = pgTable("work_groups", {
 });
 
 // User Work Groups junction table
-export const userWorkGroups = pgTable("user_work_groups", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  userId: uuid("user_id").notNull(),
-  groupId: uuid("group_id").notNull(),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+export const userWorkGroups = pgTable(
+  "user_work_groups",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id").notNull(),
+    groupId: uuid("group_id").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("IDX_user_work_groups_unique").on(table.userId, table.groupId)],
+);
 
 // Entities table
 export const entities = pgTable("entities", {
@@ -130,6 +189,10 @@ export const entityContacts = pgTable("entity_contacts", {
 export const auditLogs = pgTable("audit_logs", {
   id: uuid("id").primaryKey().defaultRandom(),
   userId: uuid("user_id"),
+  // Set when the request was made with an API key; userId is then the key owner
+  apiKeyId: uuid("api_key_id"),
+  // Set when an administrator acted as another user; userId is then the administrator
+  impersonatedUserId: uuid("impersonated_user_id"),
   action: varchar("action", { length: 50 }).notNull(),
   table: varchar("table", { length: 50 }).notNull(),
   recordId: uuid("record_id"),
@@ -144,15 +207,158 @@ export const auditLogs = pgTable("audit_logs", {
 export const userSessions = pgTable("user_sessions", {
   id: uuid("id").primaryKey().defaultRandom(),
   userId: uuid("user_id").notNull(),
+  // Every refresh token issued from the same login shares a family
+  familyId: uuid("family_id").defaultRandom().notNull(),
   token: text("token").notNull().unique(),
   isActive: boolean("is_active").default(true).notNull(),
   expiresAt: timestamp("expires_at").notNull(),
+  rotatedAt: timestamp("rotated_at"),
   ipAddress: varchar("ip_address", { length: 45 }),
   userAgent: text("user_agent"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   lastUsed: timestamp("last_used").defaultNow().notNull(),
 });
 
+// Password Reset Tokens table
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  ipAddress: varchar("ip_address", { length: 45 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// SSO Login Tickets table (handed to the browser after the provider callback, exchanged once for a session)
+export const ssoLoginTickets = pgTable("sso_login_tickets", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull(),
+  ticketHash: varchar("ticket_hash", { length: 64 }).notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Password History table (previous password hashes, used to prevent reuse)
+export const passwordHistory = pgTable(
+  "password_history",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id").notNull(),
+    passwordHash: text("password_hash").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_password_history_user_created").on(table.userId, table.createdAt)],
+);
+
+// Auth Attempts table (failed logins and password reset requests, used for rate limiting)
+export const authAttempts = pgTable(
+  "auth_attempts",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    kind: varchar("kind", { length: 20 }).notNull().$type<typeof authAttemptKinds[number]>(),
+    email: varchar("email", { length: 255 }),
+    userId: uuid("user_id"),
+    ipAddress: varchar("ip_address", { length: 45 }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_auth_attempts_ip_created").on(table.ipAddress, table.createdAt)],
+);
+
+// API Keys table (machine-to-machine access acting on behalf of the owner)
+export const apiKeys = pgTable("api_keys", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: varchar("name", { length: 100 }).notNull(),
+  // First characters of the key, shown in the UI to tell keys apart
+  keyPrefix: varchar("key_prefix", { length: 16 }).notNull(),
+  keyHash: varchar("key_hash", { length: 64 }).notNull().unique(),
+  userId: uuid("user_id").notNull(),
+  scopes: json("scopes").$type<typeof apiKeyScopes[number][]>().notNull(),
+  // Empty or null allows any address
+  allowedIps: json("allowed_ips").$type<string[]>(),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: varchar("last_used_ip", { length: 45 }),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  createdBy: uuid("created_by"),
+});
+
+// Email Outbox table (every email is stored first and delivered by the mailer, with retries)
+export const emailOutbox = pgTable(
+  "email_outbox",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    template: varchar("template", { length: 50 }).notNull(),
+    userId: uuid("user_id"),
+    to: varchar("to", { length: 255 }).notNull(),
+    subject: varchar("subject", { length: 255 }).notNull(),
+    text: text("text").notNull(),
+    html: text("html").notNull(),
+    status: varchar("status", { length: 20 }).notNull().default("PENDING").$type<typeof emailStatuses[number]>(),
+    attempts: integer("attempts").default(0).notNull(),
+    lastError: text("last_error"),
+    nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+    sentAt: timestamp("sent_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_email_outbox_status_next_attempt").on(table.status, table.nextAttemptAt)],
+);
+
+// Profile Permissions table (the profile -> permission matrix)
+export const profilePermissions = pgTable(
+  "profile_permissions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    profile: varchar("profile", { length: 20 }).notNull().$type<typeof userProfiles[number]>(),
+    module: varchar("module", { length: 50 }).notNull().$type<PermissionModule>(),
+    action: varchar("action", { length: 20 }).notNull().$type<PermissionAction>(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    createdBy: uuid("created_by"),
+  },
+  (table) => [uniqueIndex("IDX_profile_permissions_unique").on(table.profile, table.module, table.action)],
+);
+
+// Work Group Permissions table (per-group overrides of the profile matrix)
+export const workGroupPermissions = pgTable(
+  "work_group_permissions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    groupId: uuid("group_id").notNull(),
+    profile: varchar("profile", { length: 20 }).notNull().$type<typeof userProfiles[number]>(),
+    module: varchar("module", { length: 50 }).notNull().$type<PermissionModule>(),
+    action: varchar("action", { length: 20 }).notNull().$type<PermissionAction>(),
+    effect: varchar("effect", { length: 10 }).notNull().$type<typeof permissionOverrideEffects[number]>(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    createdBy: uuid("created_by"),
+  },
+  (table) => [uniqueIndex("IDX_work_group_permissions_unique").on(table.groupId, table.profile, table.module, table.action)],
+);
+
+// Delegations table (temporary access lent by one user to another, e.g. during vacations)
+export const delegations = pgTable(
+  "delegations",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    fromUserId: uuid("from_user_id").notNull(),
+    toUserId: uuid("to_user_id").notNull(),
+    // Work groups of the delegating user whose records the delegate can reach
+    workGroupIds: json("work_group_ids").$type<string[]>().notNull(),
+    // Permissions of the delegating user lent to the delegate
+    permissions: json("permissions").$type<Permission[]>().notNull(),
+    startsAt: timestamp("starts_at").notNull(),
+    endsAt: timestamp("ends_at").notNull(),
+    reason: text("reason").notNull(),
+    revokedAt: timestamp("revoked_at"),
+    revokedBy: uuid("revoked_by"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    createdBy: uuid("created_by"),
+  },
+  (table) => [index("IDX_delegations_to_user_ends").on(table.toUserId, table.endsAt)],
+);
+
 // System Config table
 export const systemConfigs = pgTable("system_configs", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -174,10 +380,33 @@ export const usersRelations = relations(users, ({ one, many }) => ({
     references: [users.id],
     relationName: "UserCreator",
   }),
+  delegationsGiven: many(delegations, { relationName: "DelegationFrom" }),
+  delegationsReceived: many(delegations, { relationName: "DelegationTo" }),
 }));
 
 export const workGroupsRelations = relations(workGroups, ({ many }) => ({
   userWorkGroups: many(userWorkGroups),
+  permissions: many(workGroupPermissions),
+}));
+
+export const workGroupPermissionsRelations = relations(workGroupPermissions, ({ one }) => ({
+  workGroup: one(workGroups, {
+    fields: [workGroupPermissions.groupId],
+    references: [workGroups.id],
+  }),
+}));
+
+export const delegationsRelations = relations(delegations, ({ one }) => ({
+  fromUser: one(users, {
+    fields: [delegations.fromUserId],
+    references: [users.id],
+    relationName: "DelegationFrom",
+  }),
+  toUser: one(users, {
+    fields: [delegations.toUserId],
+    references: [users.id],
+    relationName: "DelegationTo",
+  }),
 }));
 
 export const userWorkGroupsRelations = relations(userWorkGroups, ({ one }) => ({
@@ -224,6 +453,34 @@ export const userSessionsRelations = relations(userSessions, ({ one }) => ({
   }),
 }));
 
+export const passwordResetTokensRelations = relations(passwordResetTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [passwordResetTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const ssoLoginTicketsRelations = relations(ssoLoginTickets, ({ one }) => ({
+  user: one(users, {
+    fields: [ssoLoginTickets.userId],
+    references: [users.id],
+  }),
+}));
+
+export const passwordHistoryRelations = relations(passwordHistory, ({ one }) => ({
+  user: one(users, {
+    fields: [passwordHistory.userId],
+    references: [users.id],
+  }),
+}));
+
+export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
+  owner: one(users, {
+    fields: [apiKeys.userId],
+    references: [users.id],
+  }),
+}));
+
 // Zod schemas
 export const insertUserSchema = createInsertSchema(users, {
   email: z.string().email(),
@@ -233,6 +490,14 @@ export const insertUserSchema = createInsertSchema(users, {
   createdAt: true,
   updatedAt: true,
   lastLogin: true,
+  failedLoginAttempts: true,
+  lockedUntil: true,
+  twoFactorEnabled: true,
+  twoFactorSecret: true,
+  twoFactorRecoveryCodes: true,
+  passwordChangedAt: true,
+  ssoIssuer: true,
+  ssoSubject: true,
 });
 
 export const insertWorkGroupSchema = createInsertSchema(workGroups).omit({
@@ -263,6 +528,47 @@ export const insertEntityContactSchema = createInsertSchema(entityContacts, {
   updatedAt: true,
 });
 
+export const insertApiKeySchema = createInsertSchema(apiKeys, {
+  name: z.string().min(1),
+  scopes: z.array(z.enum(apiKeyScopes)).min(1),
+  allowedIps: z.array(z.string().ip()).optional(),
+  expiresAt: z.coerce.date().optional(),
+}).omit({
+  id: true,
+  keyPrefix: true,
+  keyHash: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  createdBy: true,
+});
+
+// A delegation lends work groups, permissions or both, for a period that has not ended yet
+export const insertDelegationSchema = createInsertSchema(delegations, {
+  workGroupIds: z.array(z.string().uuid()),
+  permissions: z.array(z.enum(permissions as [Permission, ...Permission[]])),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  reason: z.string().min(1),
+}).omit({
+  id: true,
+  revokedAt: true,
+  revokedBy: true,
+  createdAt: true,
+  createdBy: true,
+}).refine((data) => data.fromUserId !== data.toUserId, {
+  message: "A user cannot delegate to themselves",
+  path: ["toUserId"],
+}).refine((data) => data.workGroupIds.length > 0 || data.permissions.length > 0, {
+  message: "Select at least one work group or permission",
+  path: ["permissions"],
+}).refine((data) => data.endsAt > data.startsAt && data.endsAt > new Date(), {
+  message: "The end date must be after the start date and in the future",
+  path: ["endsAt"],
+});
+
 export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
   id: true,
   createdAt: true,
@@ -282,6 +588,19 @@ export type InsertEntityContact = z.infer<typeof insertEntityContactSchema>;
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type UserSession = typeof userSessions.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type PasswordHistory = typeof passwordHistory.$inferSelect;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type SystemConfig = typeof systemConfigs.$inferSelect;
+export type ProfilePermission = typeof profilePermissions.$inferSelect;
+export type WorkGroupPermission = typeof workGroupPermissions.$inferSelect;
+export type Delegation = typeof delegations.$inferSelect;
+export type InsertDelegation = z.infer<typeof insertDelegationSchema>;
+export type AuthAttempt = typeof authAttempts.$inferSelect;
+export type OutboxEmail = typeof emailOutbox.$inferSelect;
+export type InsertOutboxEmail = typeof emailOutbox.$inferInsert;
+export type InsertAuthAttempt = typeof authAttempts.$inferInsert;
 
 // Extended types with relations
 export type UserWithWorkGroups = User & {
@@ -290,6 +609,19 @@ export type UserWithWorkGroups = User & {
   })[];
 };
 
+export type ApiKeyWithOwner = ApiKey & {
+  owner: User;
+};
+
+export type AuditLogWithUser = AuditLog & {
+  user: User | null;
+};
+
+export type DelegationWithUsers = Delegation & {
+  fromUser: User;
+  toUser: User;
+};
+
 export type EntityWithAddressesAndContacts = Entity & {
   addresses: EntityAddress[];
   contacts: EntityContact[];